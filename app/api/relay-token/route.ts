@@ -0,0 +1,63 @@
+/** BeyondConversation **
+ * POST /api/relay-token: a signed, short-lived token the browser presents to the relay.
+ *
+ * Anyone who can load the app can get a token, so per-token limits cap one session,
+ * not one person. This route only answers browsers' same-origin requests (Origin /
+ * Sec-Fetch-Site must be present and match) and at most RELAY_TOKEN_RATE_PER_MIN: per
+ * client IP behind a proxy you name with TRUST_PROXY=1, else for all callers together
+ * (a client can claim any x-forwarded-for). Put the app behind your own login if the
+ * relay must not be open to every visitor.
+ *
+ * Env (web/.env.local; the secret must match the relay's):
+ *   RELAY_TOKEN_SECRET        unset → auth is off and this returns { token: null }
+ *   RELAY_TOKEN_TTL_SEC       how long the token may be used to connect (default 120)
+ *   RELAY_MAX_SESSION_SEC     per-session wall-clock cap (default 3600)
+ *   RELAY_MAX_AUDIO_SEC       audio the token may stream upstream (default 1800)
+ *   RELAY_TOKEN_RATE_PER_MIN  tokens per minute, per client IP or in all (default 30)
+ *   TRUST_PROXY=1             a reverse proxy in front sets x-forwarded-for; limit per client IP
+ */
+
+import { NextResponse } from 'next/server';
+import { issueToken } from '../../lib/token';
+import { RateLimiter, clientKey } from '../../lib/rateLimit';
+
+export const dynamic = 'force-dynamic';
+
+function envSeconds(name: string, fallback: number): number {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v > 0 ? v : fallback;
+}
+
+const limiter = new RateLimiter(envSeconds('RELAY_TOKEN_RATE_PER_MIN', 30), 60_000);
+const trustProxy = process.env.TRUST_PROXY === '1';
+
+// Browsers always say where a POST comes from; other sites' pages, and scripts that say nothing, are refused
+function sameOrigin(req: Request): boolean {
+  const site = req.headers.get('sec-fetch-site');
+  const origin = req.headers.get('origin');
+  if (!site && !origin) return false;
+  if (site && site !== 'same-origin') return false;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.get('host');
+  } catch {
+    return false;
+  }
+}
+
+export async function POST(req: Request) {
+  const secret = process.env.RELAY_TOKEN_SECRET;
+  if (!secret) return NextResponse.json({ token: null });
+
+  if (!sameOrigin(req)) return NextResponse.json({ error: 'cross-origin' }, { status: 403 });
+  if (!limiter.take(clientKey(req.headers, trustProxy))) return NextResponse.json({ error: 'rate-limited' }, { status: 429, headers: { 'Retry-After': '60' } });
+
+  const { token, claims } = issueToken(secret, envSeconds('RELAY_TOKEN_TTL_SEC', 120), {
+    maxSessionSec: envSeconds('RELAY_MAX_SESSION_SEC', 3600),
+    maxAudioSec: envSeconds('RELAY_MAX_AUDIO_SEC', 1800),
+  });
+  return NextResponse.json(
+    { token, expiresAt: claims.exp * 1000, maxSessionSec: claims.maxSessionSec, maxAudioSec: claims.maxAudioSec },
+    { headers: { 'Cache-Control': 'no-store' } },
+  );
+}
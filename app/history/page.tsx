@@ -0,0 +1,210 @@
+'use client';
+
+/** BeyondConversation **
+ * Past sessions the relay recorded (server RECORD_SESSIONS=1): list, reopen, play back, delete.
+ * Recordings are everyone's, so this is an operator page: the relay wants its ADMIN_TOKEN.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { resolveHttpUrl } from '../lib/relay';
+import { defaultSpeakerName } from '../lib/speakers';
+import { formatOffset } from '../lib/transcript';
+
+// Mirrors storage.js on the relay
+type RecordedSegment = { seq: number; commitId: number; startMs: number; endMs: number; text: string; translation?: string; speaker?: string };
+type RecordingSummary = {
+  id: string;
+  language: string;
+  translateTo: string | null;
+  createdAt: number;
+  endedAt: number | null;
+  durationMs: number;
+  segmentCount: number;
+  preview: string;
+};
+type Recording = Omit<RecordingSummary, 'segmentCount' | 'preview'> & { sampleRate: number; segments: RecordedSegment[] };
+
+const ADMIN_TOKEN_STORAGE_KEY = 'beyondconversation.adminToken';
+
+export default function History(): React.JSX.Element | null {
+  const [base, setBase] = useState('');
+  const [items, setItems] = useState<RecordingSummary[]>([]);
+  const [open, setOpen] = useState<Recording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The relay's ADMIN_TOKEN, kept for this tab only; empty when the relay has auth off.
+  // Requests read the ref, so typing it doesn't refetch on every key
+  const [adminToken, setAdminToken] = useState('');
+  const adminTokenRef = useRef('');
+  // The audio element can't send headers, so the WAV is fetched and played from a blob URL
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const openIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    try { adminTokenRef.current = window.sessionStorage.getItem(ADMIN_TOKEN_STORAGE_KEY) || ''; } catch {}
+    setAdminToken(adminTokenRef.current);
+    setBase(resolveHttpUrl());
+  }, []);
+
+  useEffect(() => {
+    if (!audioUrl) return;
+    return () => URL.revokeObjectURL(audioUrl);
+  }, [audioUrl]);
+
+  const send = useCallback(async (path: string, init?: RequestInit): Promise<Response> => {
+    const token = adminTokenRef.current;
+    const res = await fetch(`${base}${path}`, { ...init, headers: token ? { Authorization: `Bearer ${token}` } : undefined });
+    if (res.ok) return res;
+    const body = await res.json().catch(() => ({}));
+    throw new Error(body.error === 'recording-disabled'
+      ? 'Recording is off on the relay. Start it with RECORD_SESSIONS=1.'
+      : body.error === 'session-active' ? 'That session is still live.'
+        : body.error === 'unauthorized' ? 'The relay wants its ADMIN_TOKEN to show recordings.' : `Relay answered ${res.status}.`);
+  }, [base]);
+
+  const refresh = useCallback(async () => {
+    try {
+      const { recordings } = (await (await send('/recordings')).json()) as { recordings: RecordingSummary[] };
+      setItems(recordings);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : `Could not reach the relay at ${base}.`);
+    }
+  }, [base, send]);
+
+  useEffect(() => {
+    if (base) void refresh();
+  }, [base, refresh]);
+
+  function saveAdminToken(value: string) {
+    adminTokenRef.current = value;
+    setAdminToken(value);
+    try { window.sessionStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, value); } catch {}
+  }
+
+  async function reopen(id: string) {
+    try {
+      const rec = (await (await send(`/recordings/${id}`)).json()) as Recording;
+      openIdRef.current = id;
+      setOpen(rec);
+      setAudioUrl(null);
+      setError(null);
+      if (rec.endedAt === null) return;
+      const wav = await (await send(`/recordings/${id}/audio.wav`)).blob();
+      // Another recording may have been picked meanwhile
+      if (openIdRef.current === id) setAudioUrl(URL.createObjectURL(wav));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load that session.');
+    }
+  }
+
+  async function remove(id: string) {
+    if (!confirm('Delete this recording and its transcript?')) return;
+    try {
+      await send(`/recordings/${id}`, { method: 'DELETE' });
+      if (open?.id === id) {
+        setOpen(null);
+        setAudioUrl(null);
+      }
+      await refresh();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not delete that session.');
+    }
+  }
+
+  function downloadJson(rec: Recording) {
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([JSON.stringify(rec, null, 2)], { type: 'application/json' }));
+    a.download = `${rec.id}.json`;
+    a.click();
+    setTimeout(() => URL.revokeObjectURL(a.href), 0);
+  }
+
+  function seek(ms: number) {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = ms / 1000;
+    void audio.play().catch(() => {});
+  }
+
+  if (!base) return null;
+
+  return (
+    <div style={{ fontFamily: 'system-ui, sans-serif', padding: 16, maxWidth: 900, margin: '0 auto' }}>
+      <h1 style={{ textAlign: 'center', fontSize: 24, fontWeight: 600, marginBottom: 8 }}>History</h1>
+      <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+        <Link href="/" style={{ padding: '8px 12px', border: '1px solid #e5e7eb', borderRadius: 8 }}>← Live</Link>
+        <input
+          type="password"
+          value={adminToken}
+          onChange={(e) => saveAdminToken(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') void refresh(); }}
+          placeholder="Relay ADMIN_TOKEN"
+          autoComplete="off"
+          style={{ padding: '6px 8px', flex: 1, maxWidth: 260 }}
+        />
+        <button onClick={refresh} style={{ padding: '8px 12px' }}>Refresh</button>
+      </div>
+
+      {error && (
+        <div style={{ padding: 12, border: '1px solid #fde68a', background: '#fffbeb', color: '#7c2d12', borderRadius: 12, marginBottom: 12 }}>{error}</div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'minmax(0, 1fr) minmax(0, 2fr)', gap: 12 }}>
+        <ul style={{ border: '1px solid #e5e7eb', borderRadius: 12, padding: 8, maxHeight: '70vh', overflow: 'auto' }}>
+          {items.length === 0 && <li style={{ opacity: 0.6, fontSize: 13 }}>No recorded sessions.</li>}
+          {items.map((r) => (
+            <li
+              key={r.id}
+              onClick={() => reopen(r.id)}
+              style={{ padding: 8, borderRadius: 8, cursor: 'pointer', background: open?.id === r.id ? '#eff6ff' : undefined }}
+            >
+              <div style={{ fontSize: 13, fontWeight: 600 }}>
+                {new Date(r.createdAt).toLocaleString()} {r.endedAt === null && <span style={{ color: '#16a34a' }}>● live</span>}
+              </div>
+              <div style={{ fontSize: 12, opacity: 0.7 }}>
+                {formatOffset(r.durationMs)} · {r.segmentCount} segments · {r.language}
+              </div>
+              <div style={{ fontSize: 12, opacity: 0.8, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{r.preview}</div>
+            </li>
+          ))}
+        </ul>
+
+        <div style={{ border: '1px solid #e5e7eb', borderRadius: 12, padding: 12, minHeight: 200 }}>
+          {!open ? (
+            <div style={{ opacity: 0.6, fontSize: 13 }}>Pick a session to reopen its transcript.</div>
+          ) : (
+            <>
+              <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8, flexWrap: 'wrap' }}>
+                <strong style={{ fontSize: 14 }}>{new Date(open.createdAt).toLocaleString()}</strong>
+                <span style={{ fontSize: 12, opacity: 0.7 }}>{formatOffset(open.durationMs)}</span>
+                <button onClick={() => downloadJson(open)} style={{ padding: '4px 8px', fontSize: 12 }}>JSON</button>
+                {open.endedAt !== null && (
+                  <button onClick={() => remove(open.id)} style={{ padding: '4px 8px', marginLeft: 'auto' }}>Delete</button>
+                )}
+              </div>
+              {open.endedAt !== null ? (
+                <audio ref={audioRef} controls src={audioUrl ?? undefined} style={{ width: '100%', marginBottom: 8 }} />
+              ) : (
+                <div style={{ fontSize: 12, opacity: 0.7, marginBottom: 8 }}>Audio is available once the session ends.</div>
+              )}
+              <ul style={{ maxHeight: '55vh', overflow: 'auto' }}>
+                {open.segments.map((s) => (
+                  <li key={s.seq} onClick={() => seek(s.startMs)} style={{ display: 'flex', gap: 8, padding: '4px 0', cursor: 'pointer' }}>
+                    <span style={{ fontSize: 12, opacity: 0.6, minWidth: 56, fontVariantNumeric: 'tabular-nums' }}>{formatOffset(s.startMs)}</span>
+                    <span style={{ flex: 1 }}>
+                      {s.speaker && <b style={{ marginRight: 6 }}>{defaultSpeakerName(s.speaker)}:</b>}
+                      {s.text}
+                    </span>
+                    {s.translation && <span style={{ flex: 1, color: '#1d4ed8' }}>{s.translation}</span>}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
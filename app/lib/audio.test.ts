@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { base64FromPCM16, downmix, downsampleTo24kHz, floatToPCM16, planUpload } from './audio';
+import { DEFAULT_VAD } from './pcmWorklet';
+import { AUDIO_SAMPLE_RATE } from './protocol';
+
+test('floatToPCM16 scales and clamps', () => {
+  assert.deepEqual(Array.from(floatToPCM16(new Float32Array([1, 0.5, 0, -0.5, -1, 2, -2]))), [32767, 16383, 0, -16384, -32768, 32767, -32768]);
+});
+
+test('base64FromPCM16 encodes little-endian bytes', () => {
+  assert.equal(base64FromPCM16(new Int16Array([1, -1])), Buffer.from([1, 0, 0xff, 0xff]).toString('base64'));
+  // Past one 32 KB slice, and from a view that doesn't start at 0
+  const big = new Int16Array(40_000).map((_, i) => i);
+  assert.equal(base64FromPCM16(big), Buffer.from(big.buffer).toString('base64'));
+  const view = big.subarray(10, 20);
+  assert.equal(base64FromPCM16(view), Buffer.from(view.buffer, view.byteOffset, view.byteLength).toString('base64'));
+});
+
+test('downsampleTo24kHz', () => {
+  const src = new Float32Array(48000);
+  src[0] = 1;
+  assert.equal(downsampleTo24kHz(src, 48000).length, 24000);
+  // Fractional ratios may land a sample either side
+  assert.ok(Math.abs(downsampleTo24kHz(src, 44100).length - (48000 * 24000) / 44100) <= 1);
+  assert.equal(downsampleTo24kHz(src, AUDIO_SAMPLE_RATE), src);
+});
+
+test('downmix averages channels', () => {
+  const mono = new Float32Array([0.5]);
+  assert.equal(downmix([mono]), mono);
+  assert.deepEqual(Array.from(downmix([new Float32Array([1, 0]), new Float32Array([0, -1])])), [0.5, -0.5]);
+});
+
+test('planUpload without VAD flushes every 1.2 s and at the end', () => {
+  const ops = planUpload(new Float32Array(AUDIO_SAMPLE_RATE * 3), { ...DEFAULT_VAD, enabled: false });
+  const flushes = ops.filter((op) => op.kind === 'flush').map((op) => op.atSample);
+  assert.deepEqual(flushes, [28_800, 57_600, 72_000]);
+  const audio = ops.filter((op) => op.kind === 'audio');
+  assert.equal(audio.reduce((n, op) => n + (op.kind === 'audio' ? op.pcm.byteLength / 2 : 0), 0), AUDIO_SAMPLE_RATE * 3);
+});
+
+test('planUpload with VAD turns silence into skips', () => {
+  const samples = new Float32Array(AUDIO_SAMPLE_RATE * 4);
+  // 1 s of tone in the middle of silence
+  for (let i = AUDIO_SAMPLE_RATE; i < AUDIO_SAMPLE_RATE * 2; i++) samples[i] = 0.3 * Math.sin((2 * Math.PI * 220 * i) / AUDIO_SAMPLE_RATE);
+  const ops = planUpload(samples, { ...DEFAULT_VAD, enabled: true });
+  assert.ok(ops.some((op) => op.kind === 'skip'));
+  assert.ok(ops.some((op) => op.kind === 'audio'));
+  assert.equal(ops[ops.length - 1].kind, 'flush');
+  // Audio and skips account for the stream up to the last flush
+  const last = ops.filter((op) => op.kind !== 'flush').pop();
+  assert.ok(last && last.atSample <= samples.length);
+});
@@ -0,0 +1,108 @@
+/** BeyondConversation **
+ * PCM helpers for the page: float → PCM16 → base64, resampling and downmixing, and
+ * the plan an uploaded file is streamed by (the same chunks, skips and flushes live
+ * capture would send).
+ */
+
+import { AUDIO_SAMPLE_RATE } from './protocol';
+import { VAD_FRAME_MS, createResampler, createVad, createVoiceprint, type VadConfig, type Voiceprint } from './pcmWorklet';
+
+// PCM utils (pure)
+export function floatToPCM16(f32: Float32Array): Int16Array {
+  const out = new Int16Array(f32.length);
+  for (let i = 0; i < f32.length; i++) {
+    const s = Math.max(-1, Math.min(1, f32[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+export function base64FromPCM16(i16: Int16Array): string {
+  const buf = new Uint8Array(i16.buffer, i16.byteOffset, i16.byteLength);
+  let bin = '';
+  // Convert in 32 KB slices: one call per slice instead of one per byte, without blowing the arg limit
+  for (let i = 0; i < buf.length; i += 0x8000) bin += String.fromCharCode(...buf.subarray(i, i + 0x8000));
+  return btoa(bin);
+}
+
+// Resample from srcRate to 24000 Hz, mono (anti-aliased; same filter the worklet uses)
+export function downsampleTo24kHz(samples: Float32Array, srcRate: number): Float32Array {
+  if (srcRate === AUDIO_SAMPLE_RATE) return samples;
+  const r = createResampler(srcRate, AUDIO_SAMPLE_RATE);
+  const head = r.process(samples);
+  const tail = r.flush();
+  const out = new Float32Array(head.length + tail.length);
+  out.set(head, 0);
+  out.set(tail, head.length);
+  return out;
+}
+
+// Mono mix of a decoded file (pure)
+export function downmix(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) return channels[0];
+  const out = new Float32Array(channels[0]?.length ?? 0);
+  for (const ch of channels) for (let i = 0; i < out.length; i++) out[i] += ch[i] / channels.length;
+  return out;
+}
+
+// What an uploaded file turns into on the wire, in order. `atSample` is how far into
+// the file the stream is once the op is sent (for pacing and progress); a flush
+// carries the voiceprint of the audio since the previous one.
+export type UploadOp =
+  | { kind: 'audio'; pcm: ArrayBuffer; atSample: number }
+  | { kind: 'skip'; samples: number; atSample: number }
+  | { kind: 'flush'; atSample: number; voice: Voiceprint | null };
+
+// Plan the upload of 24 kHz mono samples the way live capture would send them: with VAD,
+// silence becomes skips and pauses become flushes; without, a flush every 1.2 s of audio.
+export function planUpload(samples: Float32Array, vad: VadConfig, chunkMs = 100): UploadOp[] {
+  const ops: UploadOp[] = [];
+  const chunkLen = Math.round((AUDIO_SAMPLE_RATE * chunkMs) / 1000);
+  let pending: Float32Array[] = [];
+  let pendingLen = 0;
+  let at = 0;
+  const meter = createVoiceprint(AUDIO_SAMPLE_RATE, VAD_FRAME_MS);
+  const emit = () => {
+    if (!pendingLen) return;
+    const merged = new Float32Array(pendingLen);
+    let o = 0;
+    for (const p of pending) { merged.set(p, o); o += p.length; }
+    ops.push({ kind: 'audio', pcm: floatToPCM16(merged).buffer as ArrayBuffer, atSample: at });
+    pending = [];
+    pendingLen = 0;
+  };
+  const queue = (frame: Float32Array) => {
+    meter.add(frame);
+    pending.push(frame);
+    pendingLen += frame.length;
+    at += frame.length;
+    if (pendingLen >= chunkLen) emit();
+  };
+
+  if (!vad.enabled) {
+    const flushEvery = Math.round(AUDIO_SAMPLE_RATE * 1.2);
+    for (let i = 0; i < samples.length; i += chunkLen) {
+      queue(samples.subarray(i, i + chunkLen));
+      emit();
+      if (at % flushEvery < chunkLen) ops.push({ kind: 'flush', atSample: at, voice: meter.take() });
+    }
+  } else {
+    const detector = createVad(vad, AUDIO_SAMPLE_RATE);
+    const frameLen = (AUDIO_SAMPLE_RATE * VAD_FRAME_MS) / 1000;
+    for (let i = 0; i + frameLen <= samples.length; i += frameLen) {
+      const step = detector.push(samples.subarray(i, i + frameLen));
+      if (step.start?.skipped) {
+        at += step.start.skipped;
+        ops.push({ kind: 'skip', samples: step.start.skipped, atSample: at });
+      }
+      for (const f of step.send) queue(f);
+      if (step.end) {
+        emit();
+        ops.push({ kind: 'flush', atSample: at, voice: meter.take() });
+      }
+    }
+  }
+  emit();
+  if (ops[ops.length - 1]?.kind !== 'flush') ops.push({ kind: 'flush', atSample: samples.length, voice: meter.take() });
+  return ops;
+}
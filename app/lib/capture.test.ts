@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_PROCESSING, friendlyMicError, isSecureOriginLike, levelPercent, micConstraints } from './capture';
+
+test('isSecureOriginLike: HTTPS or a loopback host', () => {
+  assert.equal(isSecureOriginLike('example.com', 'https:'), true);
+  assert.equal(isSecureOriginLike('localhost', 'http:'), true);
+  assert.equal(isSecureOriginLike('127.0.0.1', 'http:'), true);
+  assert.equal(isSecureOriginLike('::1', 'http:'), true);
+  assert.equal(isSecureOriginLike('192.168.1.10', 'http:'), false);
+});
+
+test('friendlyMicError maps getUserMedia errors', () => {
+  assert.deepEqual(
+    [{ name: 'NotAllowedError' }, { name: 'NotFoundError' }, { name: 'NotReadableError' }, { name: 'OverconstrainedError' }, new TypeError('x'), null]
+      .map((e) => friendlyMicError(e).code),
+    ['permission-denied', 'no-device', 'hardware-busy', 'constraints', 'insecure-context', 'unknown'],
+  );
+  assert.equal(friendlyMicError({ name: 'NotFoundError' }).source, 'mic');
+});
+
+test('friendlyMicError maps tab share errors', () => {
+  assert.deepEqual(friendlyMicError({ name: 'NotAllowedError' }, 'tab').code, 'permission-denied');
+  assert.equal(friendlyMicError({ name: 'NoAudioTrackError' }, 'tab').code, 'no-audio-track');
+  assert.equal(friendlyMicError({ name: 'NotSupportedError' }, 'tab').code, 'unsupported');
+  assert.equal(friendlyMicError({ name: 'NotAllowedError' }, 'tab').source, 'tab');
+});
+
+test('micConstraints pins a picked device', () => {
+  assert.deepEqual(micConstraints('', DEFAULT_PROCESSING), { ...DEFAULT_PROCESSING });
+  assert.deepEqual(micConstraints('usb-1', { ...DEFAULT_PROCESSING, autoGainControl: false }), {
+    echoCancellation: true,
+    noiseSuppression: true,
+    autoGainControl: false,
+    deviceId: { exact: 'usb-1' },
+  });
+});
+
+test('levelPercent', () => {
+  assert.deepEqual([levelPercent(-90), levelPercent(-60), levelPercent(-30), levelPercent(0), levelPercent(3)], [0, 0, 50, 100, 100]);
+});
@@ -0,0 +1,96 @@
+/** BeyondConversation **
+ * Getting at audio in the browser: secure-context checks, microphone constraints
+ * and what to tell people when the mic or a tab share fails.
+ */
+
+// Secure origin helpers
+export function isSecureOriginLike(hostname: string, protocol: string): boolean {
+  const isLocalhost = ['localhost', '127.0.0.1', '::1'].includes(hostname);
+  return protocol === 'https:' || isLocalhost;
+}
+
+export function isSecureRuntime(): boolean {
+  try {
+    // @ts-ignore
+    if (typeof window !== 'undefined' && window.isSecureContext) return true;
+    if (typeof location !== 'undefined') return isSecureOriginLike(location.hostname, location.protocol);
+  } catch {}
+  return false;
+}
+
+// Friendly mic error mapping
+export type FriendlyMicErrorCode =
+  | 'permission-denied'
+  | 'no-device'
+  | 'hardware-busy'
+  | 'constraints'
+  | 'insecure-context'
+  | 'unsupported'
+  | 'no-audio-track'   // Tab/screen shared without its audio
+  | 'unknown';
+
+// What gets transcribed: the mic, a shared tab/screen's audio, or both mixed
+export type CaptureKind = 'mic' | 'tab';
+export type CaptureSource = 'mic' | 'tab' | 'both';
+export const CAPTURE_KINDS: Record<CaptureSource, CaptureKind[]> = { mic: ['mic'], tab: ['tab'], both: ['mic', 'tab'] };
+
+export type CaptureError = { code: FriendlyMicErrorCode; message: string; source: CaptureKind };
+
+export function friendlyMicError(err: unknown, source: CaptureKind = 'mic'): CaptureError {
+  const name = (err as any)?.name || (err as any)?.code || 'UnknownError';
+  return { ...(source === 'tab' ? tabErrorFor(name) : micErrorFor(name)), source };
+}
+
+function micErrorFor(name: string): { code: FriendlyMicErrorCode; message: string } {
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return { code: 'permission-denied', message: 'Microphone permission was blocked. Allow mic access and reload.' };
+    case 'NotFoundError':
+    case 'DevicesNotFoundError':
+      return { code: 'no-device', message: 'No microphone found. Plug in or enable a mic and try again.' };
+    case 'NotReadableError':
+    case 'AbortError':
+      return { code: 'hardware-busy', message: 'Microphone is in use by another app. Close calls/recorders and retry.' };
+    case 'OverconstrainedError':
+      return { code: 'constraints', message: 'Requested audio constraints are not supported by your device/browser.' };
+    case 'TypeError':
+      return { code: 'insecure-context', message: 'Use HTTPS or localhost to access the microphone.' };
+    default:
+      return { code: 'unknown', message: 'Could not access the microphone. Check site permissions and try again.' };
+  }
+}
+
+// getDisplayMedia fails differently: cancelling the picker is NotAllowedError too
+function tabErrorFor(name: string): { code: FriendlyMicErrorCode; message: string } {
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return { code: 'permission-denied', message: 'Screen sharing was cancelled or blocked. Pick a tab or screen to capture its audio.' };
+    case 'NoAudioTrackError':
+      return { code: 'no-audio-track', message: 'Nothing to hear: share again and tick "Share tab audio" (or "Share system audio").' };
+    case 'NotReadableError':
+    case 'AbortError':
+      return { code: 'hardware-busy', message: 'The browser could not capture that tab or screen. Try sharing it again.' };
+    case 'NotSupportedError':
+      return { code: 'unsupported', message: 'This browser cannot share tab audio. Use a recent Chrome or Edge.' };
+    case 'TypeError':
+      return { code: 'insecure-context', message: 'Use HTTPS or localhost to share tab audio.' };
+    default:
+      return { code: 'unknown', message: 'Could not capture tab audio. Try sharing again.' };
+  }
+}
+
+// Browser audio processing the mic picker can switch off (e.g. for an audio interface)
+export type AudioProcessing = { echoCancellation: boolean; noiseSuppression: boolean; autoGainControl: boolean };
+export const DEFAULT_PROCESSING: AudioProcessing = { echoCancellation: true, noiseSuppression: true, autoGainControl: true };
+
+// getUserMedia audio constraints; '' is the system default input
+export function micConstraints(deviceId: string, processing: AudioProcessing): MediaTrackConstraints {
+  return deviceId ? { ...processing, deviceId: { exact: deviceId } } : { ...processing };
+}
+
+// Level bar width (%) for a dBFS reading: -60 dB and below is empty
+export function levelPercent(db: number): number {
+  return Math.round(Math.min(1, Math.max(0, (db + 60) / 60)) * 100);
+}
@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { GLOSSARY_LIMITS, applyGlossary, compileGlossary, editDistance, glossaryPrompt, limitGlossary, parseGlossary } from './glossary';
+
+test('parseGlossary: one term per line, aliases after the colon', () => {
+  assert.deepEqual(parseGlossary('Kubernetes\n\n BeyondConversation: beyond conversation, beyond convo ,\n'), [
+    { term: 'Kubernetes' },
+    { term: 'BeyondConversation', aliases: ['beyond conversation', 'beyond convo'] },
+  ]);
+  assert.equal(glossaryPrompt([{ term: 'A' }, { term: 'B' }]), 'Vocabulary: A, B.');
+});
+
+test('limitGlossary drops empty and oversized entries', () => {
+  const long = 'x'.repeat(GLOSSARY_LIMITS.termLength + 1);
+  assert.deepEqual(limitGlossary([{ term: ' ok ', aliases: ['', ' ', 'fine', 'y'.repeat(GLOSSARY_LIMITS.aliasLength + 1)] }, { term: long }, { term: ' ' }]), [
+    { term: 'ok', aliases: ['fine'] },
+  ]);
+});
+
+test('aliases match whole phrases, case-insensitively', () => {
+  const g = compileGlossary([{ term: 'BeyondConversation', aliases: ['beyond convo'] }]);
+  assert.deepEqual(applyGlossary('Try Beyond Convo, not beyond convoy.', g), { text: 'Try BeyondConversation, not beyond convoy.', fixes: 1 });
+});
+
+test('regex-looking aliases are literal text, so they cannot backtrack', () => {
+  const g = compileGlossary([{ term: 'X', aliases: ['(.|.)+$', '(a|aa)+$', '(\\w|\\d)+x', '/bey?ond/i'] }]);
+  const hostile = `${'a'.repeat(5000)}!`;
+  const started = Date.now();
+  assert.equal(applyGlossary(hostile, g).text, hostile);
+  assert.ok(Date.now() - started < 1000);
+  assert.equal(applyGlossary('say (a|aa)+$ and beyond', g).text, 'say X and beyond');
+});
+
+test('fuzzy matching fixes near misses of longer terms only', () => {
+  const g = compileGlossary([{ term: 'Kubernetes' }, { term: 'Redis' }]);
+  assert.deepEqual(applyGlossary('deploy to kubernets, then redus', g), { text: 'deploy to Kubernetes, then redus', fixes: 1 });
+  assert.equal(editDistance('kitten', 'sitting'), 3);
+  assert.equal(editDistance('kitten', 'sitting', 1), 2);
+});
@@ -0,0 +1,136 @@
+/** BeyondConversation **
+ * Session glossary: domain terms the provider should expect, and a deterministic
+ * correction pass the relay runs over transcripts before they go out.
+ *
+ * Shared by the page (parsing what people type) and the relay (compiling and applying).
+ * In the editor, one term per line:
+ *
+ *   Kubernetes
+ *   BeyondConversation: beyond conversation, beyond convo
+ *
+ * Text after ':' lists known mishearings, comma-separated; each matches as a whole
+ * phrase, case-insensitively. Every term is also matched fuzzily (a small edit
+ * distance) against words of the same count.
+ *
+ * Aliases are always literal. The relay runs them on its one thread for every interim
+ * and final of every session, so client-supplied regular expressions are not
+ * accepted: no shape check catches every catastrophically backtracking pattern.
+ */
+
+export type GlossaryTerm = { term: string; aliases?: string[] };
+
+export const GLOSSARY_LIMITS = { terms: 200, termLength: 80, aliases: 20, aliasLength: 100 } as const;
+
+type Rule = { pattern: RegExp; term: string };
+export type CompiledGlossary = { rules: Rule[]; fuzzy: { term: string; words: string[] }[] };
+
+// Fuzzy matching leaves short words alone: "cat" → "Kat" would be a guess, not a fix
+const FUZZY_MIN_LENGTH = 5;
+
+export function parseGlossary(text: string): GlossaryTerm[] {
+  const terms: GlossaryTerm[] = [];
+  for (const line of text.split('\n')) {
+    const colon = line.indexOf(':');
+    const term = (colon < 0 ? line : line.slice(0, colon)).trim();
+    if (!term) continue;
+    // Aliases are split on ", " or ","
+    const aliases = colon < 0 ? [] : line.slice(colon + 1).split(',').map((a) => a.trim()).filter(Boolean);
+    terms.push(aliases.length ? { term, aliases } : { term });
+  }
+  return terms;
+}
+
+/** Clamp to GLOSSARY_LIMITS (the relay applies this to whatever a client sends). */
+export function limitGlossary(terms: GlossaryTerm[]): GlossaryTerm[] {
+  return terms
+    .slice(0, GLOSSARY_LIMITS.terms)
+    .filter((t) => t.term.trim() && t.term.length <= GLOSSARY_LIMITS.termLength)
+    .map((t) => ({
+      term: t.term.trim(),
+      aliases: (t.aliases || []).filter((a) => a.trim() && a.length <= GLOSSARY_LIMITS.aliasLength).slice(0, GLOSSARY_LIMITS.aliases),
+    }));
+}
+
+/** Vocabulary hint for the speech model (e.g. Whisper's `prompt`). */
+export function glossaryPrompt(terms: GlossaryTerm[]): string {
+  return terms.length ? `Vocabulary: ${terms.map((t) => t.term).join(', ')}.` : '';
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function compileGlossary(terms: GlossaryTerm[]): CompiledGlossary {
+  const rules: Rule[] = [];
+  const fuzzy: CompiledGlossary['fuzzy'] = [];
+  for (const { term, aliases = [] } of limitGlossary(terms)) {
+    for (const alias of aliases) {
+      rules.push({ pattern: new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(alias)}(?![\\p{L}\\p{N}])`, 'giu'), term });
+    }
+    const words = normalize(term).split(' ');
+    if (words.join('').length >= FUZZY_MIN_LENGTH) fuzzy.push({ term, words });
+  }
+  return { rules, fuzzy };
+}
+
+function normalize(s: string): string {
+  return s.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, '').replace(/\s+/g, ' ').trim();
+}
+
+// Levenshtein distance, giving up once it exceeds `max`
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+// One edit per six letters, at most two (a five-letter term only gets its case fixed)
+function allowedEdits(length: number): number {
+  return Math.min(2, Math.floor(length / 6));
+}
+
+/** Correct a transcript; returns the new text and how many replacements were made. */
+export function applyGlossary(text: string, glossary: CompiledGlossary): { text: string; fixes: number } {
+  let fixes = 0;
+  let out = text;
+  for (const { pattern, term } of glossary.rules) {
+    out = out.replace(pattern, (m) => {
+      if (m !== term) fixes++;
+      return term;
+    });
+  }
+  if (!glossary.fuzzy.length) return { text: out, fixes };
+
+  // Fuzzy pass over word windows; separators (spaces) are kept in the token list
+  const tokens = out.split(/(\s+)/);
+  for (const { term, words } of glossary.fuzzy) {
+    const target = words.join(' ');
+    const max = allowedEdits(target.replace(/ /g, '').length);
+    for (let i = 0; i < tokens.length; i += 2) {
+      const span = tokens.slice(i, i + words.length * 2 - 1);
+      if (span.length < words.length * 2 - 1) break;
+      const raw = span.join('');
+      const candidate = normalize(raw);
+      if (!candidate || (candidate === target && raw.includes(term))) continue;
+      if (editDistance(candidate, target, max) > max) continue;
+      // Keep punctuation around the match ("kubernets," → "Kubernetes,")
+      const lead = /^[^\p{L}\p{N}]*/u.exec(raw)?.[0] ?? '';
+      const trail = /[^\p{L}\p{N}]*$/u.exec(raw)?.[0] ?? '';
+      const replaced = `${lead}${term}${trail}`;
+      if (replaced === raw) continue;
+      tokens.splice(i, span.length, replaced);
+      fixes++;
+    }
+  }
+  return { text: tokens.join(''), fixes };
+}
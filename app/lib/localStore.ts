@@ -0,0 +1,186 @@
+/** BeyondConversation **
+ * Transcripts kept in the browser (IndexedDB), so a crashed tab or a stray Reset
+ * loses nothing, whether or not the relay records sessions.
+ *
+ * A local session is a summary (cheap to list) plus its transcript: the lines,
+ * speakers and annotations as the page last had them. The page writing to a session holds a Web Lock
+ * on it; an `active` session nobody holds was interrupted (the tab crashed, closed or
+ * reloaded) and can be restored. Reset moves a session to the trash, which is emptied
+ * after TRASH_RETENTION_MS.
+ */
+
+export type LocalSessionState = 'active' | 'closed' | 'trashed';
+
+export type LocalSessionSummary = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  state: LocalSessionState;
+  trashedAt?: number;
+  lineCount: number;
+  preview: string;   // Start of the first line
+};
+
+// `annotations` is absent in sessions saved before they existed
+export type LocalTranscript<L, S, A = never> = { lines: L[]; speakers: S[]; annotations?: A[] };
+
+export const TRASH_RETENTION_MS = 30 * 24 * 3600_000;
+
+const DB_NAME = 'beyondconversation';
+const DB_VERSION = 1;
+const LOCK_PREFIX = 'beyondconversation.local.';
+
+export function newLocalSessionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains('sessions')) db.createObjectStore('sessions', { keyPath: 'id' });
+      if (!db.objectStoreNames.contains('transcripts')) db.createObjectStore('transcripts', { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function result<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export class LocalTranscriptStore<L extends { text: string }, S, A = never> {
+  // Sessions this page holds, with the function that lets go of each lock
+  private held = new Map<string, () => void>();
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  /** null where IndexedDB is unavailable (some private modes); the page then works as before. */
+  static async open<L extends { text: string }, S, A = never>(): Promise<LocalTranscriptStore<L, S, A> | null> {
+    if (typeof indexedDB === 'undefined') return null;
+    try {
+      return new LocalTranscriptStore<L, S, A>(await openDb());
+    } catch {
+      return null;
+    }
+  }
+
+  // One transaction over both stores; resolves once it has committed
+  private tx(mode: IDBTransactionMode, fn: (sessions: IDBObjectStore, transcripts: IDBObjectStore) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const t = this.db.transaction(['sessions', 'transcripts'], mode);
+      t.oncomplete = () => resolve();
+      t.onerror = () => reject(t.error);
+      t.onabort = () => reject(t.error);
+      fn(t.objectStore('sessions'), t.objectStore('transcripts'));
+    });
+  }
+
+  // Read-modify-write of a summary inside one transaction (a missing id is left alone)
+  private update(id: string, patch: (s: LocalSessionSummary) => Partial<LocalSessionSummary>): Promise<void> {
+    return this.tx('readwrite', (sessions) => {
+      const req = sessions.get(id);
+      req.onsuccess = () => {
+        const summary = req.result as LocalSessionSummary | undefined;
+        if (summary) sessions.put({ ...summary, ...patch(summary) });
+      };
+    });
+  }
+
+  /** Snapshot a session's transcript; the first save creates the session (active). */
+  save(id: string, transcript: LocalTranscript<L, S, A>, name: string): Promise<void> {
+    return this.tx('readwrite', (sessions, transcripts) => {
+      const req = sessions.get(id);
+      req.onsuccess = () => {
+        const now = Date.now();
+        const summary: LocalSessionSummary = req.result || { id, name, createdAt: now, updatedAt: now, state: 'active', lineCount: 0, preview: '' };
+        sessions.put({ ...summary, updatedAt: now, lineCount: transcript.lines.length, preview: transcript.lines[0]?.text.slice(0, 80) ?? '' });
+        transcripts.put({ id, ...transcript });
+      };
+    });
+  }
+
+  /** Every session, trashed ones included, most recently changed first. */
+  async list(): Promise<LocalSessionSummary[]> {
+    const all = await result(this.db.transaction('sessions').objectStore('sessions').getAll() as IDBRequest<LocalSessionSummary[]>);
+    return all.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(id: string): Promise<LocalTranscript<L, S, A> | null> {
+    const row = await result(this.db.transaction('transcripts').objectStore('transcripts').get(id));
+    return row ? { lines: row.lines, speakers: row.speakers, annotations: row.annotations ?? [] } : null;
+  }
+
+  /** Active sessions with lines that no page holds: left behind by a crash or a closed tab. */
+  async interrupted(): Promise<LocalSessionSummary[]> {
+    const locked = new Set<string>();
+    try {
+      const { held = [], pending = [] } = await navigator.locks.query();
+      for (const lock of [...held, ...pending]) if (lock.name) locked.add(lock.name);
+    } catch {}
+    return (await this.list()).filter((s) => s.state === 'active' && s.lineCount > 0 && !this.held.has(s.id) && !locked.has(LOCK_PREFIX + s.id));
+  }
+
+  /** This page now writes to the session: mark it active and hold it until close/trash (or unload). */
+  async activate(id: string): Promise<void> {
+    await this.update(id, () => ({ state: 'active', trashedAt: undefined }));
+    this.claim(id);
+  }
+
+  /** Hold a session for this page; browsers without Web Locks just skip the lock. */
+  claim(id: string) {
+    if (this.held.has(id)) return;
+    let release = () => {};
+    const hold = new Promise<void>((resolve) => { release = resolve; });
+    this.held.set(id, release);
+    navigator.locks?.request(LOCK_PREFIX + id, () => hold).catch(() => {});
+  }
+
+  private release(id: string) {
+    this.held.get(id)?.();
+    this.held.delete(id);
+  }
+
+  /** Done with it, but keep it in the list. */
+  async close(id: string): Promise<void> {
+    this.release(id);
+    await this.update(id, () => ({ state: 'closed' }));
+  }
+
+  rename(id: string, name: string): Promise<void> {
+    return this.update(id, () => ({ name }));
+  }
+
+  async trash(id: string): Promise<void> {
+    this.release(id);
+    await this.update(id, () => ({ state: 'trashed', trashedAt: Date.now() }));
+  }
+
+  /** Out of the trash, back in the list (closed). */
+  untrash(id: string): Promise<void> {
+    return this.update(id, () => ({ state: 'closed', trashedAt: undefined }));
+  }
+
+  /** Gone for good. */
+  remove(id: string): Promise<void> {
+    this.release(id);
+    return this.tx('readwrite', (sessions, transcripts) => {
+      sessions.delete(id);
+      transcripts.delete(id);
+    });
+  }
+
+  /** Delete trashed sessions older than `maxAgeMs` (0: all of them). */
+  async emptyTrash(maxAgeMs = 0): Promise<void> {
+    const cutoff = Date.now() - maxAgeMs;
+    for (const s of await this.list()) {
+      if (s.state === 'trashed' && (s.trashedAt ?? 0) <= cutoff) await this.remove(s.id);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_OVERLAY, parseOverlayOptions, visibleLines, type OverlayLine } from './overlay';
+
+const opts = (query: string) => parseOverlayOptions(new URLSearchParams(query));
+
+test('parseOverlayOptions reads the URL and clamps', () => {
+  assert.deepEqual(opts(''), DEFAULT_OVERLAY);
+  assert.deepEqual(
+    opts('lines=1&timeout=2.5&size=48&font=Inter, sans-serif&position=top&color=ff0&bg=none&track=both&speakers=1'),
+    { lines: 1, timeoutMs: 2500, size: 48, font: 'Inter, sans-serif', position: 'top', color: '#ff0', background: null, track: 'both', speakers: true },
+  );
+  assert.deepEqual([opts('lines=9').lines, opts('size=4').size, opts('timeout=0').timeoutMs], [3, 12, 0]);
+  assert.equal(opts('bg=%2300000080').background, '#00000080');
+});
+
+test('parseOverlayOptions falls back on anything malformed', () => {
+  const o = opts('lines=two&timeout=&size=big&font=x;}body{display:none&position=left&color=red;x&bg=url(x)&track=es');
+  assert.deepEqual(o, DEFAULT_OVERLAY);
+  assert.equal(opts('color=white').color, 'white');
+});
+
+test('visibleLines: the newest lines until they time out', () => {
+  const lines: OverlayLine[] = [1, 2, 3].map((seq) => ({ seq, text: `line ${seq}`, shownAt: seq * 1000 }));
+  assert.deepEqual(visibleLines(lines, 3500, { lines: 2, timeoutMs: 8000 }).map((l) => l.seq), [2, 3]);
+  assert.deepEqual(visibleLines(lines, 10_500, { lines: 2, timeoutMs: 8000 }).map((l) => l.seq), [3]);
+  assert.deepEqual(visibleLines(lines, 99_000, { lines: 3, timeoutMs: 0 }).map((l) => l.seq), [1, 2, 3]);
+});
@@ -0,0 +1,92 @@
+/** BeyondConversation **
+ * Caption overlay (/overlay/<room>): the options its URL carries, and which lines are
+ * on screen at a given moment.
+ *
+ *   lines=2          finals shown above the interim (1–3)
+ *   timeout=8        seconds a final stays up (0: until newer lines push it out)
+ *   size=36          font size in px (12–120)
+ *   font=Inter       CSS font family
+ *   position=bottom  top | center | bottom
+ *   color=fff        text color: hex (the # is optional) or a CSS color name
+ *   bg=00000099      caption box color, same forms; "none" draws outlined text instead
+ *   track=original   original | translation | both
+ *   speakers=1       prefix lines with their speaker
+ *
+ * Anything missing or malformed falls back to its default, so a typo in an OBS
+ * browser source URL never blanks the captions.
+ */
+
+import type { CueTrack } from './transcript';
+
+export type OverlayPosition = 'top' | 'center' | 'bottom';
+
+export type OverlayOptions = {
+  lines: number;
+  timeoutMs: number;
+  size: number;
+  font: string;
+  position: OverlayPosition;
+  color: string;
+  background: string | null;  // null: no box, outlined text
+  track: CueTrack;
+  speakers: boolean;
+};
+
+// A final as the overlay keeps it: `shownAt` (ms since epoch) starts its timeout
+export type OverlayLine = { seq: number; text: string; translation?: string; speaker?: string; shownAt: number };
+
+export const OVERLAY_LIMITS = { lines: 3, size: [12, 120], timeoutSec: 600 } as const;
+
+export const DEFAULT_OVERLAY: OverlayOptions = {
+  lines: 2,
+  timeoutMs: 8_000,
+  size: 36,
+  font: 'system-ui, sans-serif',
+  position: 'bottom',
+  color: '#ffffff',
+  background: '#00000099',
+  track: 'original',
+  speakers: false,
+};
+
+const POSITIONS: readonly OverlayPosition[] = ['top', 'center', 'bottom'];
+const TRACKS: readonly CueTrack[] = ['original', 'translation', 'both'];
+
+// Hex (with or without #) or a plain color name; nothing that could smuggle in more CSS
+function cssColor(value: string | null): string | null {
+  if (!value) return null;
+  if (/^#?(?:[\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i.test(value)) return value.startsWith('#') ? value : `#${value}`;
+  return /^[a-z]{3,20}$/i.test(value) ? value : null;
+}
+
+function number(value: string | null, min: number, max: number): number | null {
+  if (value === null || value.trim() === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : null;
+}
+
+export function parseOverlayOptions(params: { get(name: string): string | null }): OverlayOptions {
+  const d = DEFAULT_OVERLAY;
+  const font = params.get('font')?.trim();
+  const position = params.get('position') as OverlayPosition | null;
+  const track = params.get('track') as CueTrack | null;
+  const bg = params.get('bg');
+  const timeoutSec = number(params.get('timeout'), 0, OVERLAY_LIMITS.timeoutSec);
+  return {
+    lines: Math.round(number(params.get('lines'), 1, OVERLAY_LIMITS.lines) ?? d.lines),
+    timeoutMs: timeoutSec === null ? d.timeoutMs : Math.round(timeoutSec * 1000),
+    size: Math.round(number(params.get('size'), ...OVERLAY_LIMITS.size) ?? d.size),
+    font: font && /^[\p{L}\p{N} ,'"-]{1,80}$/u.test(font) ? font : d.font,
+    position: position && POSITIONS.includes(position) ? position : d.position,
+    color: cssColor(params.get('color')) ?? d.color,
+    background: bg === 'none' ? null : cssColor(bg) ?? d.background,
+    track: track && TRACKS.includes(track) ? track : d.track,
+    speakers: params.get('speakers') === '1' || params.get('speakers') === 'true',
+  };
+}
+
+// The newest `lines` finals that haven't timed out
+export function visibleLines(lines: OverlayLine[], now: number, opts: Pick<OverlayOptions, 'lines' | 'timeoutMs'>): OverlayLine[] {
+  const recent = lines.slice(-opts.lines);
+  return opts.timeoutMs ? recent.filter((ln) => now - ln.shownAt < opts.timeoutMs) : recent;
+}
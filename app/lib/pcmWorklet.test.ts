@@ -0,0 +1,81 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import vm from 'node:vm';
+import { DEFAULT_VAD, PCM_PROCESSOR, VAD_FRAME_MS, createResampler, createVad, pcmWorkletSource, type WorkletEvent } from './pcmWorklet';
+
+const tone = (samples: number, rate: number, hz = 220, amp = 0.3) =>
+  Float32Array.from({ length: samples }, (_, i) => amp * Math.sin((2 * Math.PI * hz * i) / rate));
+
+// Loads the worklet source the way the browser would: its own global scope, nothing from this module
+function loadProcessor(sampleRate: number, processorOptions: object) {
+  const events: WorkletEvent[] = [];
+  const registered: Record<string, new (options: object) => { process(inputs: Float32Array[][]): boolean; port: { onmessage: (e: { data: object }) => void } }> = {};
+  class AudioWorkletProcessor {
+    port = { onmessage: (_e: { data: object }) => {}, postMessage: (msg: WorkletEvent) => events.push(msg) };
+  }
+  const context = vm.createContext({ AudioWorkletProcessor, sampleRate, registerProcessor: (name: string, cls: never) => { registered[name] = cls; } });
+  vm.runInContext(pcmWorkletSource(), context);
+  const processor = new registered[PCM_PROCESSOR]({ processorOptions });
+  return { processor, events };
+}
+
+// Feeds `input` in 128-sample render quanta, like the audio thread
+function feed(processor: { process(inputs: Float32Array[][]): boolean }, input: Float32Array) {
+  for (let i = 0; i < input.length; i += 128) assert.equal(processor.process([[input.subarray(i, i + 128)]]), true);
+}
+
+test('worklet source runs on its own: VAD segments, chunks, levels and a voiceprint', () => {
+  const { processor, events } = loadProcessor(48000, { targetRate: 24000, chunkMs: 100, vad: DEFAULT_VAD });
+  feed(processor, new Float32Array(48000 / 2));
+  assert.deepEqual(events.filter((e) => e.type !== 'level'), []);   // Silence is held back
+  feed(processor, tone(48000, 48000));
+  feed(processor, new Float32Array(48000));
+  const types = events.map((e) => e.type);
+  assert.ok(types.includes('level'));
+  const start = types.indexOf('speech-start');
+  const end = types.indexOf('speech-end');
+  assert.ok(start >= 0 && end > start && types.indexOf('chunk') > start);
+  const ended = events[end] as Extract<WorkletEvent, { type: 'speech-end' }>;
+  assert.equal(ended.reason, 'pause');
+  assert.ok(ended.voice && Math.abs(2 ** ended.voice[0] - 220) < 15, `pitch: ${ended.voice && 2 ** ended.voice[0]}`);
+  const streamed = events.reduce((n, e) => n + (e.type === 'chunk' ? e.pcm.byteLength / 2 : 0), 0);
+  // The tone, its pre-roll and the hangover; nothing like the whole 2.5 s
+  assert.ok(streamed > 24000 && streamed < 24000 * 2, `streamed: ${streamed}`);
+
+  processor.port.onmessage({ data: { type: 'drain', final: true } });
+  assert.equal(events.at(-1)?.type, 'drained');
+});
+
+test('worklet source without VAD streams everything', () => {
+  const { processor, events } = loadProcessor(44100, { vad: { ...DEFAULT_VAD, enabled: false } });
+  feed(processor, tone(44100, 44100));
+  processor.port.onmessage({ data: { type: 'drain', final: true } });
+  const streamed = events.reduce((n, e) => n + (e.type === 'chunk' ? e.pcm.byteLength / 2 : 0), 0);
+  assert.ok(Math.abs(streamed - 24000) <= 128, `streamed: ${streamed}`);
+});
+
+test('createResampler keeps a tone below the cutoff and removes one above it', () => {
+  const rms = (x: Float32Array) => Math.sqrt(x.reduce((s, v) => s + v * v, 0) / x.length);
+  const r = createResampler(48000, 24000);
+  const low = [r.process(tone(24000, 48000, 1000, 0.5)), r.process(tone(24000, 48000, 1000, 0.5)), r.flush()];
+  assert.equal(low.reduce((n, x) => n + x.length, 0), 24000);
+  assert.ok(Math.abs(rms(low[1]) - 0.5 / Math.SQRT2) < 0.01);
+  const high = createResampler(48000, 24000).process(tone(48000, 48000, 15000, 0.5));
+  assert.ok(rms(high.subarray(100)) < 0.02);
+});
+
+test('createVad opens after minSpeechMs with the pre-roll and closes after the hangover', () => {
+  const frameLen = (24000 * VAD_FRAME_MS) / 1000;
+  const vad = createVad(DEFAULT_VAD, 24000);
+  const quiet = () => vad.push(new Float32Array(frameLen));
+  const loud = () => vad.push(tone(frameLen, 24000));
+  for (let i = 0; i < 50; i++) assert.deepEqual(quiet(), { send: [] });
+  const opening = Array.from({ length: DEFAULT_VAD.minSpeechMs / VAD_FRAME_MS }, loud);
+  const opened = opening[opening.length - 1];
+  assert.ok(opening.slice(0, -1).every((s) => !s.send.length));
+  assert.equal(opened.send.length, (DEFAULT_VAD.prerollMs + DEFAULT_VAD.minSpeechMs) / VAD_FRAME_MS);
+  assert.equal(opened.start?.skipped, (50 - DEFAULT_VAD.prerollMs / VAD_FRAME_MS) * frameLen);
+  const closing = Array.from({ length: DEFAULT_VAD.hangoverMs / VAD_FRAME_MS }, quiet);
+  assert.ok(closing.slice(0, -1).every((s) => s.send.length === 1 && !s.end));
+  assert.equal(closing.at(-1)?.end, 'pause');
+});
@@ -0,0 +1,424 @@
+/** BeyondConversation **
+ * Capture pipeline that runs inside the AudioWorklet.
+ *
+ * The processor downmixes to mono, resamples to 24 kHz with a windowed-sinc
+ * low-pass (no aliasing from 44.1/48 kHz mics), converts to PCM16 and posts
+ * fixed-size chunks to the main thread as transferable ArrayBuffers.
+ *
+ * With VAD enabled, 20 ms frames are classified by energy and zero-crossing rate.
+ * Silence is held back (only a short pre-roll is sent once speech starts), and the
+ * processor announces where a segment ends so the page can commit at the pause.
+ *
+ * Alongside, a voiceprint (pitch and brightness of the voiced frames) is summed per
+ * committed stretch of audio, for on-device speaker labels (lib/speakers.ts), and
+ * the raw input is metered for the page's level bar and clipping/silence warnings.
+ */
+
+import { AUDIO_SAMPLE_RATE } from './protocol';
+
+export const PCM_PROCESSOR = 'pcm-processor';
+
+export type Resampler = {
+  /** Feed input samples; returns every output sample that is ready so far. */
+  process(input: Float32Array): Float32Array;
+  /** Pad with silence to emit the samples still waiting on look-ahead. */
+  flush(): Float32Array;
+};
+
+export type VadConfig = {
+  enabled: boolean;
+  thresholdDb: number;    // Frame RMS (dBFS) above which a frame counts as speech
+  minSpeechMs: number;    // Speech this long (uninterrupted) opens a segment; shorter blips are dropped
+  hangoverMs: number;     // Silence this long closes the segment (and triggers a commit)
+  maxSegmentMs: number;   // Commit anyway once a segment runs this long
+  prerollMs: number;      // Audio kept from before speech onset so first syllables survive
+};
+
+export const DEFAULT_VAD: VadConfig = {
+  enabled: true,
+  thresholdDb: -45,
+  minSpeechMs: 200,
+  hangoverMs: 600,
+  maxSegmentMs: 15_000,
+  prerollMs: 300,
+};
+
+export const VAD_FRAME_MS = 20;
+
+export type SegmentEndReason = 'pause' | 'max-length';
+
+// Mean [log2 pitch (Hz), zero-crossing rate, brightness] over the voiced frames of a
+// stretch of audio; null when it held too little voiced speech to tell
+export type Voiceprint = number[];
+
+// Messages posted by the worklet to the main thread
+export type WorkletEvent =
+  | { type: 'chunk'; pcm: ArrayBuffer }                          // PCM16 LE, mono, 24 kHz
+  | { type: 'drained'; voice: Voiceprint | null }                // Reply to { type: 'drain', final? } once the partial chunk is out
+  | { type: 'speech-start'; skipped: number }                    // Silence (24 kHz samples) held back since the last segment
+  | { type: 'speech-end'; reason: SegmentEndReason; voice: Voiceprint | null }  // The segment's last chunk is out: commit now
+  | ({ type: 'level' } & LevelReading);                          // Input level, every LEVEL_INTERVAL_MS
+
+export const LEVEL_INTERVAL_MS = 50;
+
+// Input level before resampling (so clipped samples are seen as the mic delivered them)
+export type LevelReading = {
+  rmsDb: number;      // dBFS over the last interval
+  peakDb: number;
+  clipping: boolean;  // A sample hit full scale within the last ~1.5 s
+  silent: boolean;    // Nothing above -65 dBFS for ~4 s: muted, or the wrong device
+};
+
+// One VAD step: frames to stream (in order), and whether a segment opened or closed
+export type VadStep = { send: Float32Array[]; start?: { skipped: number }; end?: SegmentEndReason };
+
+export type Vad = {
+  /** Classify one VAD_FRAME_MS frame and decide what to stream. */
+  push(frame: Float32Array): VadStep;
+  /** Apply new tunables mid-stream. */
+  configure(cfg: Partial<VadConfig>): void;
+};
+
+export type VoiceprintMeter = {
+  /** Feed streamed audio (any length); it is framed internally. */
+  add(samples: Float32Array): void;
+  /** Voiceprint of everything added since the last take(), then start over. */
+  take(): Voiceprint | null;
+};
+
+/**
+ * Streaming windowed-sinc resampler.
+ *
+ * NOTE: this function is stringified into the worklet module, so it must stay
+ * self-contained (no imports, no closures over module scope) and avoid syntax
+ * the compiler would rewrite into helper calls.
+ */
+export function createResampler(inRate: number, outRate: number, halfTaps = 16): Resampler {
+  const step = inRate / outRate;                     // input samples per output sample
+  const cutoff = 0.5 * Math.min(1, outRate / inRate) * 0.9; // cycles/input-sample, a little under Nyquist
+  const RES = 256;                                   // kernel table resolution (entries per input sample)
+  const table = new Float32Array(halfTaps * RES + 2);
+  for (let i = 0; i < table.length; i++) {
+    const d = i / RES;
+    const x = 2 * cutoff * d;
+    const sinc = d === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const hann = d >= halfTaps ? 0 : 0.5 * (1 + Math.cos((Math.PI * d) / halfTaps));
+    table[i] = 2 * cutoff * sinc * hann;
+  }
+
+  // `buf` holds history + unconsumed input; `t` is the next output position in buf coordinates.
+  // Everything lives on one object (no inner named functions) so the stringified
+  // source stays free of bundler-injected helpers.
+  const state = {
+    buf: new Float32Array(halfTaps),               // leading silence stands in for the past
+    t: halfTaps,
+    real: halfTaps,                                // end of real (non-padding) input in buf
+    run(input: Float32Array, limit: number) {
+      const merged = new Float32Array(this.buf.length + input.length);
+      merged.set(this.buf, 0);
+      merged.set(input, this.buf.length);
+      const out: number[] = [];
+      let t = this.t;
+      while (t + halfTaps < merged.length && t < limit) {
+        const base = Math.floor(t);
+        let sum = 0;
+        let norm = 0;
+        for (let k = base - halfTaps + 1; k <= base + halfTaps; k++) {
+          // Linear interpolation into the kernel table
+          const p = Math.abs(t - k) * RES;
+          const j = Math.floor(p);
+          const w = j >= table.length - 1 ? 0 : table[j] + (table[j + 1] - table[j]) * (p - j);
+          sum += merged[k] * w;
+          norm += w;
+        }
+        out.push(norm ? sum / norm : 0);
+        t += step;
+      }
+      // Drop samples no future output can reach
+      const keepFrom = Math.max(0, Math.floor(t) - halfTaps + 1);
+      this.buf = merged.slice(keepFrom);
+      this.t = t - keepFrom;
+      return { out: Float32Array.from(out), dropped: keepFrom };
+    },
+  };
+
+  return {
+    process(input: Float32Array) {
+      const r = state.run(input, Infinity);
+      state.real = state.real + input.length - r.dropped;
+      return r.out;
+    },
+    flush() {
+      const r = state.run(new Float32Array(halfTaps + Math.ceil(step)), state.real);
+      state.real = Math.max(0, state.real - r.dropped);
+      return r.out;
+    },
+  };
+}
+
+/**
+ * Energy + zero-crossing voice activity detector over fixed VAD_FRAME_MS frames.
+ *
+ * Stringified into the worklet like createResampler; the same constraints apply.
+ */
+export function createVad(initial: VadConfig, sampleRate: number): Vad {
+  const state = {
+    cfg: Object.assign({}, initial),
+    speaking: false,
+    runMs: 0,        // Consecutive speech while not speaking yet
+    silentMs: 0,     // Consecutive silence inside a segment
+    segmentMs: 0,
+    skipped: 0,      // Samples dropped since the last segment
+    pre: [] as Float32Array[],
+    isSpeech(frame: Float32Array) {
+      let energy = 0;
+      let crossings = 0;
+      for (let i = 0; i < frame.length; i++) {
+        energy += frame[i] * frame[i];
+        if (i && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+      }
+      const db = 10 * Math.log10(energy / frame.length + 1e-12);
+      const zcr = crossings / frame.length;
+      // Voiced speech is loud; unvoiced consonants (s, f, sh) are quieter but cross zero often
+      return db > this.cfg.thresholdDb || (db > this.cfg.thresholdDb - 10 && zcr > 0.3);
+    },
+  };
+
+  return {
+    push(frame: Float32Array): VadStep {
+      const frameMs = (frame.length / sampleRate) * 1000;
+      const speech = state.isSpeech(frame);
+      if (!state.speaking) {
+        // Keep just enough history for the pre-roll plus the onset itself
+        state.pre.push(frame);
+        const maxPre = Math.ceil((state.cfg.prerollMs + state.cfg.minSpeechMs) / frameMs);
+        while (state.pre.length > maxPre) state.skipped += (state.pre.shift() as Float32Array).length;
+        state.runMs = speech ? state.runMs + frameMs : 0;
+        if (state.runMs < state.cfg.minSpeechMs) return { send: [] };
+        const send = state.pre;
+        const start = { skipped: state.skipped };
+        state.pre = [];
+        state.skipped = 0;
+        state.speaking = true;
+        state.silentMs = 0;
+        state.segmentMs = send.length * frameMs;
+        return { send, start };
+      }
+      state.segmentMs += frameMs;
+      state.silentMs = speech ? 0 : state.silentMs + frameMs;
+      if (state.silentMs >= state.cfg.hangoverMs) {
+        state.speaking = false;
+        state.runMs = 0;
+        return { send: [frame], end: 'pause' };
+      }
+      if (state.segmentMs >= state.cfg.maxSegmentMs) {
+        state.segmentMs = 0;
+        return { send: [frame], end: 'max-length' };
+      }
+      return { send: [frame] };
+    },
+    configure(cfg: Partial<VadConfig>) {
+      state.cfg = Object.assign({}, state.cfg, cfg);
+    },
+  };
+}
+
+/**
+ * Per-commit voice features: autocorrelation pitch (70-400 Hz, on a 2x decimated
+ * frame), zero-crossing rate and brightness (first-difference energy over energy).
+ *
+ * Stringified into the worklet like createResampler; the same constraints apply.
+ */
+export function createVoiceprint(sampleRate: number, frameMs: number, minVoicedFrames = 10): VoiceprintMeter {
+  const frameLen = Math.round((sampleRate * frameMs) / 1000);
+  const state = {
+    frame: new Float32Array(frameLen),
+    fill: 0,
+    voiced: 0,
+    sums: [0, 0, 0],
+    measure(f: Float32Array) {
+      let energy = 0;
+      let diff = 0;
+      let crossings = 0;
+      for (let i = 0; i < f.length; i++) {
+        energy += f[i] * f[i];
+        if (i) {
+          diff += (f[i] - f[i - 1]) * (f[i] - f[i - 1]);
+          if ((f[i] >= 0) !== (f[i - 1] >= 0)) crossings++;
+        }
+      }
+      if (10 * Math.log10(energy / f.length + 1e-12) < -50) return;
+      // Pitch: strongest normalized autocorrelation peak at half rate
+      const half = new Float32Array(f.length >> 1);
+      for (let i = 0; i < half.length; i++) half[i] = (f[2 * i] + f[2 * i + 1]) / 2;
+      const rate = sampleRate / 2;
+      const minLag = Math.floor(rate / 400);
+      const maxLag = Math.min(half.length - 1, Math.ceil(rate / 70));
+      let r0 = 0;
+      for (let i = 0; i < half.length; i++) r0 += half[i] * half[i];
+      const rs = new Float32Array(maxLag + 1);
+      let best = 0;
+      for (let lag = minLag; lag <= maxLag; lag++) {
+        let r = 0;
+        for (let i = 0; i + lag < half.length; i++) r += half[i] * half[i + lag];
+        rs[lag] = r / (r0 * (half.length - lag) / half.length || 1);
+        if (rs[lag] > best) best = rs[lag];
+      }
+      if (best < 0.5) return;  // Unvoiced or noise: no pitch to learn from
+      // The first peak near the best one: multiples of the period score about as high
+      let bestLag = minLag;
+      while (bestLag < maxLag && (rs[bestLag] < 0.9 * best || rs[bestLag + 1] > rs[bestLag])) bestLag++;
+      this.voiced++;
+      this.sums[0] += Math.log2(rate / bestLag);
+      this.sums[1] += crossings / f.length;
+      this.sums[2] += diff / (energy || 1);
+    },
+  };
+
+  return {
+    add(samples: Float32Array) {
+      for (let i = 0; i < samples.length; i++) {
+        state.frame[state.fill++] = samples[i];
+        if (state.fill < state.frame.length) continue;
+        state.fill = 0;
+        state.measure(state.frame);
+      }
+    },
+    take() {
+      const n = state.voiced;
+      const voice = n >= minVoicedFrames ? state.sums.map((v) => v / n) : null;
+      state.voiced = 0;
+      state.sums = [0, 0, 0];
+      return voice;
+    },
+  };
+}
+
+export type LevelMeter = {
+  /** Feed input samples; returns a reading once per interval, else null. */
+  add(samples: Float32Array): LevelReading | null;
+};
+
+/**
+ * RMS/peak meter with clipping and silence detection.
+ *
+ * Stringified into the worklet like createResampler; the same constraints apply.
+ */
+export function createLevelMeter(sampleRate: number, intervalMs = 50): LevelMeter {
+  const state = {
+    size: Math.round((sampleRate * intervalMs) / 1000),
+    count: 0,
+    energy: 0,
+    peak: 0,
+    sinceClipMs: Infinity,
+    silentMs: 0,
+    read(): LevelReading {
+      const rmsDb = 10 * Math.log10(this.energy / this.count + 1e-10);
+      const peakDb = 20 * Math.log10(this.peak + 1e-5);
+      this.sinceClipMs = this.peak >= 0.99 ? 0 : this.sinceClipMs + intervalMs;
+      this.silentMs = rmsDb < -65 ? this.silentMs + intervalMs : 0;
+      this.count = 0;
+      this.energy = 0;
+      this.peak = 0;
+      return { rmsDb, peakDb, clipping: this.sinceClipMs < 1500, silent: this.silentMs >= 4000 };
+    },
+  };
+
+  return {
+    add(samples: Float32Array) {
+      let reading: LevelReading | null = null;
+      for (let i = 0; i < samples.length; i++) {
+        const v = samples[i];
+        state.energy += v * v;
+        if (Math.abs(v) > state.peak) state.peak = Math.abs(v);
+        if (++state.count === state.size) reading = state.read();
+      }
+      return reading;
+    },
+  };
+}
+
+/** Source for `audioWorklet.addModule` (load it through a Blob URL). */
+export function pcmWorkletSource(): string {
+  return `
+    const createResampler = ${createResampler.toString()};
+    const createVad = ${createVad.toString()};
+    const createVoiceprint = ${createVoiceprint.toString()};
+    const createLevelMeter = ${createLevelMeter.toString()};
+
+    class PCMProcessor extends AudioWorkletProcessor {
+      constructor(options) {
+        super();
+        const opts = (options && options.processorOptions) || {};
+        this.targetRate = opts.targetRate || ${AUDIO_SAMPLE_RATE};
+        this.chunk = new Int16Array(Math.round(this.targetRate * (opts.chunkMs || 100) / 1000));
+        this.fill = 0;
+        this.resampler = createResampler(sampleRate, this.targetRate);
+        this.vadEnabled = !!(opts.vad && opts.vad.enabled);
+        this.vad = createVad(Object.assign(${JSON.stringify(DEFAULT_VAD)}, opts.vad), this.targetRate);
+        this.frame = new Float32Array(Math.round(this.targetRate * ${VAD_FRAME_MS} / 1000));
+        this.frameFill = 0;
+        this.voice = createVoiceprint(this.targetRate, ${VAD_FRAME_MS});
+        this.level = createLevelMeter(sampleRate, ${LEVEL_INTERVAL_MS});
+        this.port.onmessage = (e) => {
+          if (e.data.type === 'stop') this.stopped = true;
+          if (e.data.type === 'vad') {
+            this.vadEnabled = !!e.data.config.enabled;
+            this.vad.configure(e.data.config);
+          }
+          if (e.data.type === 'drain') {
+            // Only the final drain flushes the resampler: padding mid-stream would insert silence
+            if (e.data.final) this.write(this.resampler.flush());
+            this.post(this.fill);
+            this.port.postMessage({ type: 'drained', voice: this.voice.take() });
+          }
+        };
+      }
+      post(n) {
+        if (!n) return;
+        const pcm = this.chunk.slice(0, n).buffer;
+        this.port.postMessage({ type: 'chunk', pcm }, [pcm]);
+        this.fill = 0;
+      }
+      // Resampled audio → VAD frames (or straight to PCM16 when VAD is off)
+      write(samples) {
+        if (!this.vadEnabled) return this.emit(samples);
+        for (let i = 0; i < samples.length; i++) {
+          this.frame[this.frameFill++] = samples[i];
+          if (this.frameFill < this.frame.length) continue;
+          this.frameFill = 0;
+          const step = this.vad.push(this.frame.slice());
+          if (step.start) this.port.postMessage({ type: 'speech-start', skipped: step.start.skipped });
+          for (const f of step.send) this.emit(f);
+          if (step.end) {
+            this.post(this.fill);
+            this.port.postMessage({ type: 'speech-end', reason: step.end, voice: this.voice.take() });
+          }
+        }
+      }
+      emit(samples) {
+        this.voice.add(samples);
+        for (let i = 0; i < samples.length; i++) {
+          const s = Math.max(-1, Math.min(1, samples[i]));
+          this.chunk[this.fill++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+          if (this.fill === this.chunk.length) this.post(this.fill);
+        }
+      }
+      process(inputs) {
+        if (this.stopped) return false;
+        const input = inputs[0];
+        if (!input || input.length === 0) return true;
+        let mono = input[0];
+        if (input.length > 1) {
+          mono = new Float32Array(input[0].length);
+          for (const ch of input) for (let i = 0; i < ch.length; i++) mono[i] += ch[i] / input.length;
+        }
+        const level = this.level.add(mono);
+        if (level) this.port.postMessage(Object.assign({ type: 'level' }, level));
+        this.write(this.resampler.process(mono));
+        return true;
+      }
+    }
+    registerProcessor('${PCM_PROCESSOR}', PCMProcessor);
+  `;
+}
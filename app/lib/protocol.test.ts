@@ -0,0 +1,45 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_SKIP_SAMPLES, PROTOCOL_VERSION, encodeMessage, parseClientMessage, parseServerMessage, type ServerMessage } from './protocol';
+
+const client = (msg: object) => parseClientMessage(JSON.stringify(msg));
+
+test('client.audio.skip: whole samples, at most MAX_SKIP_SAMPLES', () => {
+  assert.equal(client({ type: 'client.audio.skip', samples: MAX_SKIP_SAMPLES }).ok, true);
+  for (const samples of [MAX_SKIP_SAMPLES + 1, 1e15, -1, 1.5, '10']) {
+    const parsed = client({ type: 'client.audio.skip', samples });
+    assert.equal(parsed.ok ? 'ok' : parsed.code, 'invalid-message', `samples: ${samples}`);
+  }
+});
+
+test('parseClientMessage: malformed frames and unknown types', () => {
+  for (const raw of ['not json', '[]', 'null', '{"samples":1}', '{"type":3}']) {
+    const parsed = parseClientMessage(raw);
+    assert.equal(parsed.ok ? 'ok' : parsed.code, 'malformed', raw);
+  }
+  const parsed = client({ type: 'client.audio.delete' });
+  assert.equal(parsed.ok ? 'ok' : parsed.code, 'unknown-type');
+  // Inherited properties are not message types
+  assert.equal((client({ type: 'toString' }) as { code?: string }).code, 'unknown-type');
+});
+
+test('parseClientMessage: config and its optional fields', () => {
+  const config = { type: 'config', version: PROTOCOL_VERSION, language: 'en' };
+  assert.equal(client(config).ok, true);
+  assert.equal(client({ ...config, transport: 'binary', glossary: [{ term: 'Kubernetes', aliases: ['cube'] }], redaction: { card: 'last4' }, resume: { sessionId: 's', lastSeq: 3 } }).ok, true);
+  for (const bad of [{ language: 1 }, { version: '8' }, { transport: 'udp' }, { glossary: [{ aliases: [] }] }, { redaction: { card: 'blur' } }, { resume: { sessionId: 's' } }]) {
+    const parsed = client({ ...config, ...bad });
+    assert.equal(parsed.ok ? 'ok' : parsed.code, 'invalid-message', JSON.stringify(bad));
+  }
+  assert.equal(client({ type: 'room.control', action: 'delete' }).ok, false);
+  assert.equal(client({ type: 'ping', t: Infinity }).ok, false);
+});
+
+test('parseServerMessage and encodeMessage round-trip', () => {
+  const msg: ServerMessage = { type: 'transcript', channel: 'final', text: 'hi [CARD]', seq: 1, commitId: 1, startMs: 0, endMs: 900, redactions: [{ kind: 'card', start: 3, end: 9 }] };
+  assert.deepEqual(parseServerMessage(encodeMessage(msg)), { ok: true, message: msg });
+  const bad = parseServerMessage(JSON.stringify({ ...msg, redactions: [{ kind: 'dna', start: 0, end: 1 }] }));
+  assert.equal(bad.ok ? 'ok' : bad.code, 'invalid-message');
+  assert.equal(parseServerMessage(JSON.stringify({ type: 'status', value: 'asleep' })).ok, false);
+  assert.equal(parseServerMessage(JSON.stringify({ type: 'room.cleared' })).ok, true);
+});
@@ -0,0 +1,258 @@
+/** BeyondConversation **
+ * Wire protocol shared by the browser (page.tsx) and the relay (server/).
+ *
+ * Every frame is a JSON object with a `type` discriminator. Both ends validate
+ * incoming frames with the parsers below and answer anything they cannot read
+ * with an `error` message. Bump PROTOCOL_VERSION on any breaking change.
+ */
+
+import type { GlossaryTerm } from './glossary';
+import { MASK_STYLES, REDACTION_KINDS, type Redaction, type RedactionConfig } from './redaction';
+
+export const PROTOCOL_VERSION = 8;
+
+// Audio the relay accepts: PCM16 little-endian, mono, 24 kHz. Either base64 inside
+// `client.audio.append`, or (transport 'binary') as raw binary WebSocket frames.
+export const AUDIO_SAMPLE_RATE = 24000;
+// Longest gap one `client.audio.skip` may carry (10 s); longer silences go as several
+export const MAX_SKIP_SAMPLES = AUDIO_SAMPLE_RATE * 10;
+
+// WebSocket close codes used by the relay (4000-4999 is the application range)
+export const CLOSE_CODES = {
+  FORCED: 4000,               // Closed by an operator via the session registry
+  UNSUPPORTED_VERSION: 4001,  // Handshake carried a protocol version we don't speak
+  ROOM_CLOSED: 4002,          // Viewer: the presenter's session ended
+  ROOM_NOT_FOUND: 4003,       // Viewer: no live room with that id
+  UNAUTHORIZED: 4004,         // Missing, forged or expired relay token
+  SESSION_LIMIT: 4005,        // The token's maxSessionSec ran out
+  AUDIO_LIMIT: 4006,          // The token's maxAudioSec ran out
+} as const;
+
+export type TranscriptChannel = 'interim' | 'final' | 'translation';
+export type RelayStatus = 'connected' | 'provider-error' | 'provider-reconnecting';
+export type AudioTransport = 'json' | 'binary';
+export type RoomAction = 'pause' | 'resume' | 'clear';
+export type ProtocolErrorCode =
+  | 'malformed'            // Not JSON, not an object, or no string `type`
+  | 'unknown-type'         // Well-formed, but `type` is not part of the protocol
+  | 'invalid-message'      // Known `type` with missing or mistyped fields
+  | 'unsupported-version'  // Handshake version mismatch
+  | 'not-configured'       // Audio/control sent before the `config` handshake
+  | 'unauthorized'         // Relay token rejected (sent right before closing with UNAUTHORIZED)
+  | 'quota-exceeded';      // Session length or audio quota used up (sent before SESSION_LIMIT/AUDIO_LIMIT)
+
+// ---------- Browser → relay ----------
+// Resume a detached relay session; the relay replays finals with seq > lastSeq
+export type ResumeRequest = { sessionId: string; lastSeq: number };
+export type ConfigMessage = {
+  type: 'config';
+  version: number;
+  language: string;
+  transport?: AudioTransport;
+  translateTo?: string;        // Also translate each final into this language ('' / absent: off)
+  glossary?: GlossaryTerm[];   // Domain terms: biases the provider and corrects transcripts (lib/glossary.ts)
+  redaction?: RedactionConfig; // PII detectors to run, with a mask style each (lib/redaction.ts)
+  resume?: ResumeRequest;
+};
+export type AudioAppendMessage = { type: 'client.audio.append'; audio: string };
+// `speaker`: who the client heard in the audio since its last flush (optional label)
+export type FlushMessage = { type: 'client.flush'; speaker?: string };
+// Silence the client held back (VAD): advances the relay's audio clock without sending audio.
+// At most MAX_SKIP_SAMPLES per message.
+export type AudioSkipMessage = { type: 'client.audio.skip'; samples: number };
+export type PingMessage = { type: 'ping'; t: number };
+// Viewer handshake (instead of `config`): watch a presenter's room, read-only
+export type SubscribeMessage = { type: 'subscribe'; version: number; room: string };
+// Presenter only: pause/resume what viewers receive, or wipe their transcript
+export type RoomControlMessage = { type: 'room.control'; action: RoomAction };
+export type ClientErrorMessage = { type: 'error'; code: ProtocolErrorCode; message: string };
+
+export type ClientMessage =
+  | ConfigMessage
+  | AudioAppendMessage
+  | FlushMessage
+  | AudioSkipMessage
+  | PingMessage
+  | SubscribeMessage
+  | RoomControlMessage
+  | ClientErrorMessage;
+
+// ---------- Relay → browser ----------
+// `room` is the id viewers subscribe with; unlike `sessionId` it is safe to share
+export type ReadyMessage = { type: 'ready'; version: number; sessionId: string; resumed: boolean; room: string };
+// Finals carry their place in the audio stream: `seq` numbers finals within a relay
+// session (1, 2, ...), `commitId` names the flush/commit they transcribe, and
+// startMs/endMs are offsets into the audio streamed since the session began.
+// Interims carry only the `commitId` in flight. A `translation` repeats the seq (and
+// offsets) of the final it translates and may arrive after later finals. A final's
+// `speaker` is the label most of its commit's audio was flushed with; `redactions`
+// locate what the relay masked in `text`; `latency` says how long its commit took.
+export type TranscriptMessage = {
+  type: 'transcript';
+  channel: TranscriptChannel;
+  text: string;
+  seq?: number;
+  commitId?: number;
+  startMs?: number;
+  endMs?: number;
+  speaker?: string;
+  redactions?: Redaction[];
+  latency?: SegmentLatency;
+};
+// Measured on the relay from when a commit's first audio arrived (absent on replayed finals)
+export type SegmentLatency = { firstInterimMs?: number; finalMs: number };
+// A final as a room holds it, with its translation once one arrived
+export type TranscriptSegment = {
+  seq: number;
+  commitId: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+  translation?: string;
+  speaker?: string;
+  redactions?: Redaction[];
+};
+// First frame a viewer gets (also after a reconnect): everything shown so far
+export type RoomSnapshotMessage = {
+  type: 'room.snapshot';
+  version: number;
+  room: string;
+  paused: boolean;
+  segments: TranscriptSegment[];
+  interim: string;
+};
+// Sent to the presenter and every viewer whenever pause state or audience changes
+export type RoomStateMessage = { type: 'room.state'; paused: boolean; viewers: number };
+export type RoomClearedMessage = { type: 'room.cleared' };
+export type StatusMessage = { type: 'status'; value: RelayStatus };
+export type PongMessage = { type: 'pong'; t: number };
+export type ServerErrorMessage = { type: 'error'; code: ProtocolErrorCode; message: string };
+
+export type ServerMessage =
+  | ReadyMessage
+  | TranscriptMessage
+  | RoomSnapshotMessage
+  | RoomStateMessage
+  | RoomClearedMessage
+  | StatusMessage
+  | PongMessage
+  | ServerErrorMessage;
+
+// ---------- Runtime validation ----------
+type Check = (v: unknown) => boolean;
+
+const str: Check = (v) => typeof v === 'string';
+const num: Check = (v) => typeof v === 'number' && Number.isFinite(v);
+const oneOf = (...values: readonly string[]): Check => (v) => typeof v === 'string' && values.includes(v);
+const bool: Check = (v) => typeof v === 'boolean';
+const optional = (check: Check): Check => (v) => v === undefined || check(v);
+const shape = (fields: Record<string, Check>): Check => (v) =>
+  !!v && typeof v === 'object' && Object.entries(fields).every(([k, check]) => check((v as Record<string, unknown>)[k]));
+const arrayOf = (check: Check): Check => (v) => Array.isArray(v) && v.every(check);
+
+const REDACTIONS = arrayOf(shape({ kind: oneOf(...REDACTION_KINDS), start: num, end: num }));
+
+const ERROR_CODES = [
+  'malformed',
+  'unknown-type',
+  'invalid-message',
+  'unsupported-version',
+  'not-configured',
+  'unauthorized',
+  'quota-exceeded',
+] as const;
+
+// One check per field of every message, keyed by `type`. The mapped types make
+// the compiler reject a schema that drifts from the unions above.
+type Fields<T> = { [K in Exclude<keyof T, 'type'>]-?: Check };
+type Schema<U extends { type: string }> = { [K in U['type']]: Fields<Extract<U, { type: K }>> };
+
+const CLIENT_SCHEMA: Schema<ClientMessage> = {
+  config: {
+    version: num,
+    language: str,
+    transport: optional(oneOf('json', 'binary')),
+    translateTo: optional(str),
+    glossary: optional(arrayOf(shape({ term: str, aliases: optional(arrayOf(str)) }))),
+    redaction: optional(shape(Object.fromEntries(REDACTION_KINDS.map((k) => [k, optional(oneOf(...MASK_STYLES))])))),
+    resume: optional(shape({ sessionId: str, lastSeq: num })),
+  },
+  'client.audio.append': { audio: str },
+  'client.flush': { speaker: optional(str) },
+  'client.audio.skip': { samples: (v) => num(v) && Number.isInteger(v) && (v as number) >= 0 && (v as number) <= MAX_SKIP_SAMPLES },
+  ping: { t: num },
+  subscribe: { version: num, room: str },
+  'room.control': { action: oneOf('pause', 'resume', 'clear') },
+  error: { code: oneOf(...ERROR_CODES), message: str },
+};
+
+const SEGMENT = shape({
+  seq: num,
+  commitId: num,
+  startMs: num,
+  endMs: num,
+  text: str,
+  translation: optional(str),
+  speaker: optional(str),
+  redactions: optional(REDACTIONS),
+});
+
+const SERVER_SCHEMA: Schema<ServerMessage> = {
+  ready: { version: num, sessionId: str, resumed: bool, room: str },
+  transcript: {
+    channel: oneOf('interim', 'final', 'translation'),
+    text: str,
+    seq: optional(num),
+    commitId: optional(num),
+    startMs: optional(num),
+    endMs: optional(num),
+    speaker: optional(str),
+    redactions: optional(REDACTIONS),
+    latency: optional(shape({ firstInterimMs: optional(num), finalMs: num })),
+  },
+  'room.snapshot': { version: num, room: str, paused: bool, segments: arrayOf(SEGMENT), interim: str },
+  'room.state': { paused: bool, viewers: num },
+  'room.cleared': {},
+  status: { value: oneOf('connected', 'provider-error', 'provider-reconnecting') },
+  pong: { t: num },
+  error: { code: oneOf(...ERROR_CODES), message: str },
+};
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; code: ProtocolErrorCode; message: string };
+
+function parseWith<U extends { type: string }>(schema: Schema<U>, raw: string): ParseResult<U> {
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    return { ok: false, code: 'malformed', message: 'Frame is not valid JSON.' };
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data) || typeof (data as { type?: unknown }).type !== 'string') {
+    return { ok: false, code: 'malformed', message: 'Frame must be a JSON object with a string "type".' };
+  }
+  const type = (data as { type: string }).type;
+  if (!Object.prototype.hasOwnProperty.call(schema, type)) {
+    return { ok: false, code: 'unknown-type', message: `Unknown message type "${type}".` };
+  }
+  const fields = (schema as Record<string, Record<string, Check>>)[type];
+  for (const [field, check] of Object.entries(fields)) {
+    if (!check((data as Record<string, unknown>)[field])) {
+      return { ok: false, code: 'invalid-message', message: `"${type}" has a missing or invalid "${field}".` };
+    }
+  }
+  return { ok: true, message: data as U };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseWith(CLIENT_SCHEMA, raw);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseWith(SERVER_SCHEMA, raw);
+}
+
+export function encodeMessage(msg: ClientMessage | ServerMessage): string {
+  return JSON.stringify(msg);
+}
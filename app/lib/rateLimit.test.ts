@@ -0,0 +1,20 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { RateLimiter, clientKey } from './rateLimit';
+
+test('RateLimiter counts per key and window', () => {
+  const limiter = new RateLimiter(2, 1000);
+  assert.deepEqual([limiter.take('a', 0), limiter.take('a', 10), limiter.take('a', 20)], [true, true, false]);
+  assert.equal(limiter.take('b', 20), true);
+  assert.equal(limiter.take('a', 1000), true);
+});
+
+test('clientKey trusts x-forwarded-for only behind a configured proxy', () => {
+  const headers = (h: Record<string, string>) => new Headers(h);
+  const spoofed = headers({ 'x-forwarded-for': '203.0.113.9' });
+  assert.equal(clientKey(spoofed, false), 'all');
+  assert.equal(clientKey(headers({}), false), 'all');
+  // The proxy appends the address it saw; what the client sent comes before it
+  assert.equal(clientKey(headers({ 'x-forwarded-for': '203.0.113.9, 198.51.100.7' }), true), '198.51.100.7');
+  assert.equal(clientKey(headers({ 'x-real-ip': '198.51.100.7' }), true), '198.51.100.7');
+});
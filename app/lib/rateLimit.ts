@@ -0,0 +1,37 @@
+/** BeyondConversation **
+ * Fixed-window request counter per key (e.g. client IP), kept in memory.
+ */
+
+export class RateLimiter {
+  private readonly windows = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private readonly limit: number, private readonly windowMs: number) {}
+
+  /** Count a request; false once `key` is over the limit for the current window. */
+  take(key: string, now = Date.now()): boolean {
+    if (this.windows.size > 10_000) this.prune(now);
+    const w = this.windows.get(key);
+    if (!w || w.resetAt <= now) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return true;
+    }
+    w.count++;
+    return w.count <= this.limit;
+  }
+
+  private prune(now: number) {
+    for (const [key, w] of this.windows) if (w.resetAt <= now) this.windows.delete(key);
+  }
+}
+
+/**
+ * Who a request counts against. Next.js route handlers don't see the socket address;
+ * x-forwarded-for is only the caller's address when a proxy we trust wrote it (its
+ * rightmost entry is the one that proxy appended). Anyone can send that header, so
+ * without `trustProxy` every caller shares one key.
+ */
+export function clientKey(headers: { get(name: string): string | null }, trustProxy: boolean): string {
+  if (!trustProxy) return 'all';
+  const hops = headers.get('x-forwarded-for')?.split(',').map((h) => h.trim()).filter(Boolean);
+  return hops?.[hops.length - 1] || headers.get('x-real-ip') || 'unknown';
+}
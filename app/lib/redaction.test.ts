@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { parseRedactionPolicy, redact } from './redaction';
+
+const phones = (text: string) => redact(text, { phone: 'label' }).text;
+
+test('phone: numbers shaped like phone numbers', () => {
+  for (const number of ['+1 415 555 0132', '+44 (20) 7946 0958', '(415) 555-0132', '415-555-0132', '415.555.0132', '030 1234 5678', '0171-2345678']) {
+    assert.equal(phones(`call ${number} today`), 'call [PHONE] today', number);
+  }
+});
+
+test('phone: bare digit runs right after "call", "number", "at"…', () => {
+  assert.equal(phones('call 5551234567'), 'call [PHONE]');
+  assert.equal(phones('Call me at 15551234567 tomorrow'), 'Call me at [PHONE] tomorrow');
+  assert.equal(phones('my number is 5551234567.'), 'my number is [PHONE].');
+  for (const text of ['order 5551234567', 'total 12345678901', 'call 555123456789']) assert.equal(phones(text), text);
+});
+
+test('phone: years, amounts and order numbers stay', () => {
+  for (const text of ['years 2023 2024 2025', '2023-2024-2025', 'order 48213 77651', 'reach 10.000.000 users', '1.000.000.000 tokens', 'invoice 2024-0042-7788', '$1,250,000', 'ticket 12345678']) {
+    assert.equal(phones(text), text);
+  }
+});
+
+test('redact: detectors, mask styles and offsets into the redacted text', () => {
+  const out = redact('mail jane@example.com, card 4242 4242 4242 4242', { email: 'label', card: 'last4' });
+  assert.equal(out.text, 'mail [EMAIL], card •••• •••• •••• 4242');
+  assert.deepEqual(out.redactions, [{ kind: 'email', start: 5, end: 12 }, { kind: 'card', start: 19, end: 38 }]);
+  assert.equal(redact('jane at example dot com, at 10 dot 30', { email: 'mask' }).text, '•••• •• ••••••• ••• •••, at 10 dot 30');
+  assert.equal(redact('card 4242 4242 4242 4241', { card: 'label' }).text, 'card 4242 4242 4242 4241');
+  assert.equal(redact('ssn 123-45-6789 from 10.0.0.1', { ssn: 'label', ip: 'label' }).text, 'ssn [SSN] from [IP]');
+  assert.deepEqual(redact('call 415-555-0132', {}), { text: 'call 415-555-0132', redactions: [] });
+});
+
+test('parseRedactionPolicy', () => {
+  assert.deepEqual(parseRedactionPolicy('card, email:mask,phone:last4'), { card: 'label', email: 'mask', phone: 'last4' });
+  assert.deepEqual(parseRedactionPolicy('dna,card:blur,'), {});
+});
@@ -0,0 +1,109 @@
+/** BeyondConversation **
+ * PII redaction for transcripts, run by the relay before text leaves it (to the
+ * browser, room viewers or a recording). Recorded audio is not redacted.
+ *
+ * Each detector is a pattern plus an optional validator (e.g. Luhn for cards).
+ * Detectors run in a fixed order on the original text; a span claimed by an earlier
+ * detector is not matched again. Every replacement is reported with its offsets in
+ * the redacted text, so the page can mark it.
+ */
+
+export type RedactionKind = 'email' | 'card' | 'iban' | 'ssn' | 'ip' | 'phone';
+// label: [CARD]   mask: ••••-••••   last4: ••••-••••-••••-4242
+export type MaskStyle = 'label' | 'mask' | 'last4';
+export type RedactionConfig = Partial<Record<RedactionKind, MaskStyle>>;
+// `start`/`end` index the redacted text (the mask, not the original)
+export type Redaction = { kind: RedactionKind; start: number; end: number };
+
+export const REDACTION_KINDS: readonly RedactionKind[] = ['email', 'card', 'iban', 'ssn', 'ip', 'phone'];
+export const MASK_STYLES: readonly MaskStyle[] = ['label', 'mask', 'last4'];
+
+type Detector = { kind: RedactionKind; pattern: RegExp; valid?: (match: string) => boolean };
+
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// Spoken addresses must end in a common TLD, so "at 10 dot 30" stays a time
+const SPOKEN_TLDS = 'com|org|net|edu|gov|io|co|uk|de|fr|jp|kr|es|ai|dev|app|info|me';
+
+const digitCount = (s: string) => s.replace(/\D/g, '').length;
+
+// +country code, (area code), 3-3-4 groups, a 0 trunk prefix, or 10–11 bare digits right after
+// "call", "phone", "number", "at"… (speech models often drop the separators); never glued to a longer number
+const PHONE = /(?<![\w+(]|\d[.,-])(?:(?<=\b(?:call|calling|phone|number|dial|cell|mobile|at)(?:\s+(?:me|is|at|on))*[\s:]+)\d{10,11}|\+\d{1,3}(?:[ .-]?(?:\(\d{1,4}\)|\d{1,4})){2,5}|\(\d{2,4}\)[ .-]?\d{3,4}[ .-]?\d{4}|\d{3}([ .-])\d{3}\1\d{4}|0\d{2,4}[ .-]?\d{3,4}(?:[ .-]?\d{2,4})?)(?![\w(]|[.,-]\d)/gi;
+
+// Order matters: the more specific number formats claim their spans before `phone`
+const DETECTORS: Detector[] = [
+  // Written, or spoken the way speech models tend to spell it out ("jane at example dot com")
+  { kind: 'email', pattern: new RegExp(`[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)*\\.[A-Za-z]{2,}|[\\w.+-]+\\s+at\\s+[\\w-]+(?:\\s+dot\\s+[\\w-]+)*\\s+dot\\s+(?:${SPOKEN_TLDS})\\b`, 'gi') },
+  { kind: 'card', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, valid: (m) => luhn(m.replace(/\D/g, '')) },
+  { kind: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g },
+  { kind: 'ssn', pattern: /\b\d{3}-\d{2}-\d{4}\b/g },
+  { kind: 'ip', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+  // Only phone-shaped numbers, so years, amounts and order numbers stay
+  { kind: 'phone', pattern: PHONE, valid: (m) => digitCount(m) >= 7 && digitCount(m) <= 15 },
+];
+
+function mask(match: string, kind: RedactionKind, style: MaskStyle): string {
+  if (style === 'label') return `[${kind.toUpperCase()}]`;
+  const keep = style === 'last4' ? 4 : 0;
+  let kept = 0;
+  // Walk from the end so `last4` keeps the last four letters/digits; separators stay
+  const out = match.split('');
+  for (let i = out.length - 1; i >= 0; i--) {
+    if (!/[\p{L}\p{N}]/u.test(out[i])) continue;
+    if (kept++ < keep) continue;
+    out[i] = '•';
+  }
+  return out.join('');
+}
+
+export function redact(text: string, config: RedactionConfig): { text: string; redactions: Redaction[] } {
+  const found: { kind: RedactionKind; start: number; end: number }[] = [];
+  for (const d of DETECTORS) {
+    if (!config[d.kind]) continue;
+    for (const m of text.matchAll(d.pattern)) {
+      const start = m.index ?? 0;
+      const end = start + m[0].length;
+      if (d.valid && !d.valid(m[0])) continue;
+      if (found.some((f) => start < f.end && end > f.start)) continue;
+      found.push({ kind: d.kind, start, end });
+    }
+  }
+  if (!found.length) return { text, redactions: [] };
+
+  found.sort((a, b) => a.start - b.start);
+  let out = '';
+  let cursor = 0;
+  const redactions: Redaction[] = [];
+  for (const f of found) {
+    out += text.slice(cursor, f.start);
+    const masked = mask(text.slice(f.start, f.end), f.kind, config[f.kind] as MaskStyle);
+    redactions.push({ kind: f.kind, start: out.length, end: out.length + masked.length });
+    out += masked;
+    cursor = f.end;
+  }
+  return { text: out + text.slice(cursor), redactions };
+}
+
+/** Policy `kind[:style],...` (e.g. REDACT=card,email:label,phone:last4); style defaults to label. */
+export function parseRedactionPolicy(spec: string): RedactionConfig {
+  const config: RedactionConfig = {};
+  for (const part of spec.split(',')) {
+    const [kind, style = 'label'] = part.trim().split(':');
+    if (REDACTION_KINDS.includes(kind as RedactionKind) && MASK_STYLES.includes(style as MaskStyle)) {
+      config[kind as RedactionKind] = style as MaskStyle;
+    }
+  }
+  return config;
+}
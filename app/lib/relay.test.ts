@@ -0,0 +1,25 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { formatMs, relayCloseReason, summarizeLatency, withToken } from './relay';
+import { CLOSE_CODES } from './protocol';
+
+test('withToken', () => {
+  assert.equal(withToken('ws://localhost:8787', null), 'ws://localhost:8787');
+  assert.equal(withToken('ws://localhost:8787', 'a b'), 'ws://localhost:8787?token=a%20b');
+  assert.equal(withToken('ws://h/?x=1', 't'), 'ws://h/?x=1&token=t');
+});
+
+test('summarizeLatency: nearest-rank median and p95', () => {
+  assert.deepEqual(summarizeLatency([300, 100, 200, 900]), { n: 4, p50: 200, p95: 900 });
+  assert.deepEqual(summarizeLatency([42]), { n: 1, p50: 42, p95: 42 });
+  assert.equal(summarizeLatency([]), null);
+});
+
+test('formatMs', () => {
+  assert.deepEqual([formatMs(412.4), formatMs(1850)], ['412 ms', '1.9 s']);
+});
+
+test('relayCloseReason', () => {
+  assert.match(relayCloseReason(CLOSE_CODES.UNAUTHORIZED), /RELAY_TOKEN_SECRET/);
+  assert.equal(relayCloseReason(4999), 'The relay closed the connection (4999).');
+});
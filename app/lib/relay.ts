@@ -0,0 +1,113 @@
+/** BeyondConversation **
+ * Where the relay lives, as seen from the browser, and how its state reads to people.
+ */
+
+import { CLOSE_CODES } from './protocol';
+import { parseSummary, type MeetingSummary, type SummaryRequest } from './summary';
+
+const RELAY_PORT = 8787;
+
+// NEXT_PUBLIC_WS_URL if set (upgraded to wss:// on HTTPS pages), else the current host
+export function resolveWsUrl(): string {
+  const envUrl = process.env.NEXT_PUBLIC_WS_URL || '';
+  const isHttps = typeof location !== 'undefined' && location.protocol === 'https:';
+
+  if (envUrl) {
+    if (isHttps && envUrl.startsWith('ws://')) {
+      try {
+        const u = new URL(envUrl);
+        return `wss://${u.hostname}${u.port ? `:${u.port}` : ''}${u.pathname || ''}${u.search || ''}`;
+      } catch {
+        return envUrl.replace(/^ws:\/\//, 'wss://');
+      }
+    }
+    return envUrl;
+  }
+
+  if (isHttps) return `wss://${location.hostname}:${RELAY_PORT}`;
+  return `ws://localhost:${RELAY_PORT}`;
+}
+
+// HTTP base of the same relay (history API): ws(s)://host:port → http(s)://host:port
+export function resolveHttpUrl(): string {
+  const ws = resolveWsUrl();
+  try {
+    const u = new URL(ws);
+    return `${u.protocol === 'wss:' ? 'https' : 'http'}://${u.host}`;
+  } catch {
+    return ws.replace(/^ws/, 'http').replace(/\/+$/, '');
+  }
+}
+
+// Relay token from the Next.js app (/api/relay-token); null when the relay runs without auth
+export async function fetchRelayToken(): Promise<string | null> {
+  const res = await fetch('/api/relay-token', { method: 'POST', cache: 'no-store' });
+  if (!res.ok) throw new Error(`relay token request failed: HTTP ${res.status}`);
+  const body = (await res.json()) as { token: string | null };
+  return body.token;
+}
+
+// POST /summarize on the relay, with the token as a Bearer header (like the history API)
+export async function requestSummary(request: SummaryRequest): Promise<MeetingSummary> {
+  const token = await fetchRelayToken();
+  const res = await fetch(`${resolveHttpUrl()}/summarize`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify(request),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error === 'unauthorized' ? 'The relay rejected our access token.'
+      : body.error === 'summary-failed' ? 'The provider could not summarize this transcript. Try again in a moment.'
+        : body.message || `Relay answered ${res.status}.`);
+  }
+  const summary = parseSummary(body.summary);
+  if (!summary) throw new Error('The relay sent back an empty summary.');
+  return summary;
+}
+
+// Append the token as `?token=` (WebSocket handshakes can't carry headers)
+export function withToken(url: string, token: string | null): string {
+  if (!token) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}token=${encodeURIComponent(token)}`;
+}
+
+// URLs to try in order when connecting
+export function candidateWsUrls(): string[] {
+  const isHttps = typeof location !== 'undefined' && location.protocol === 'https:';
+  const proto = isHttps ? 'wss' : 'ws';
+  const host = (typeof location !== 'undefined' && location.hostname) || 'localhost';
+
+  const urls = new Set<string>([
+    resolveWsUrl(),                          // env / resolver
+    `${proto}://${host}:${RELAY_PORT}`,      // current host
+    `${proto}://127.0.0.1:${RELAY_PORT}`,    // loopback IPv4
+    `${proto}://localhost:${RELAY_PORT}`,    // localhost
+  ].filter(Boolean));
+
+  return Array.from(urls);
+}
+
+// Why the relay ended a connection for good, for the user
+export function relayCloseReason(code: number): string {
+  switch (code) {
+    case CLOSE_CODES.UNAUTHORIZED: return 'The relay rejected our access token. Check RELAY_TOKEN_SECRET on both the app and the relay.';
+    case CLOSE_CODES.SESSION_LIMIT: return 'This session reached its maximum length.';
+    case CLOSE_CODES.AUDIO_LIMIT: return 'The audio quota for this session is used up.';
+    case CLOSE_CODES.FORCED: return 'The session was closed by an operator.';
+    case CLOSE_CODES.UNSUPPORTED_VERSION: return 'This page and the relay speak different protocol versions. Reload the page.';
+    default: return `The relay closed the connection (${code}).`;
+  }
+}
+
+// Median and 95th percentile (nearest rank) of latency samples; null when there are none
+export function summarizeLatency(values: number[]): { n: number; p50: number; p95: number } | null {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p: number) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+  return { n: sorted.length, p50: rank(0.5), p95: rank(0.95) };
+}
+
+export function formatMs(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
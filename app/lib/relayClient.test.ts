@@ -0,0 +1,178 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { CLOSE_CODES, PROTOCOL_VERSION, type ServerMessage } from './protocol';
+import { AudioRingBuffer, RelayClient, type RelayClientStatus } from './relayClient';
+
+const audio = (samples: number) => ({ kind: 'audio' as const, pcm: new ArrayBuffer(samples * 2) });
+const shape = (items: ReturnType<AudioRingBuffer['drain']>) =>
+  items.map((it) => (it.kind === 'audio' ? `a${it.pcm.byteLength / 2}` : it.kind === 'skip' ? `s${it.samples}` : `f${it.speaker ?? ''}`));
+
+test('AudioRingBuffer keeps order and merges back-to-back skips', () => {
+  const buf = new AudioRingBuffer(1000);
+  buf.push(audio(100));
+  buf.push({ kind: 'skip', samples: 50 });
+  buf.push({ kind: 'skip', samples: 25 });
+  buf.push({ kind: 'flush', speaker: 'S1' });
+  assert.equal(buf.seconds, 100 / 24000);
+  assert.deepEqual(shape(buf.drain()), ['a100', 's75', 'fS1']);
+  assert.equal(buf.seconds, 0);
+});
+
+test('AudioRingBuffer overflow turns the oldest audio into skips and keeps every marker', () => {
+  const buf = new AudioRingBuffer(300);
+  assert.equal(buf.push(audio(200)), 0);
+  buf.push({ kind: 'flush', speaker: 'S1' });
+  buf.push({ kind: 'skip', samples: 40 });
+  buf.push(audio(100));
+  buf.push({ kind: 'flush', speaker: 'S2' });
+  assert.equal(buf.push(audio(150)), 200);
+  assert.equal(buf.push(audio(100)), 100);
+  const items = buf.drain();
+  assert.deepEqual(shape(items), ['s200', 'fS1', 's140', 'fS2', 'a150', 'a100']);
+  // The timeline the relay sees is as long as what was pushed
+  const total = items.reduce((n, it) => n + (it.kind === 'audio' ? it.pcm.byteLength / 2 : it.kind === 'skip' ? it.samples : 0), 0);
+  assert.equal(total, 200 + 40 + 100 + 150 + 100);
+});
+
+// Stands in for the browser WebSocket; tests open, feed and drop each socket by hand
+class FakeSocket {
+  static readonly OPEN = 1;
+  static all: FakeSocket[] = [];
+  readyState = 0;
+  binaryType = '';
+  sent: unknown[] = [];
+  onopen: ((ev: object) => void) | null = null;
+  onmessage: ((ev: { data: unknown }) => void) | null = null;
+  onclose: ((ev: { code: number; reason: string }) => void) | null = null;
+  onerror: ((ev: object) => void) | null = null;
+
+  constructor(readonly url: string) {
+    FakeSocket.all.push(this);
+  }
+
+  send(data: unknown) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.({});
+  }
+
+  receive(msg: ServerMessage) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+
+  drop(code = 1006) {
+    this.readyState = 3;
+    this.onclose?.({ code, reason: '' });
+  }
+
+  // JSON frames the client sent, parsed; binary audio shows up as its sample count
+  frames() {
+    return this.sent.map((d) => (typeof d === 'string' ? JSON.parse(d) : (d as ArrayBuffer).byteLength / 2));
+  }
+}
+(globalThis as { WebSocket?: unknown }).WebSocket = FakeSocket;
+
+const latest = () => FakeSocket.all[FakeSocket.all.length - 1];
+const settle = () => new Promise((r) => setImmediate(r));
+const ready = (sessionId: string, resumed: boolean): ServerMessage => ({ type: 'ready', version: PROTOCOL_VERSION, sessionId, resumed, room: 'r' });
+const final = (seq: number): ServerMessage => ({ type: 'transcript', channel: 'final', text: `line ${seq}`, seq });
+
+test('RelayClient walks the candidate URLs, then backs off exponentially', (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  t.mock.method(Math, 'random', () => 1);   // No jitter
+  t.mock.method(console, 'info', () => {});
+  t.mock.method(console, 'warn', () => {});
+  FakeSocket.all = [];
+  const statuses: RelayClientStatus[] = [];
+  const client = new RelayClient({ urls: ['ws://a', 'ws://b'], onMessage: () => {}, onStatus: (s) => statuses.push(s), baseDelayMs: 100, maxDelayMs: 250 });
+  client.connect();
+  const dialed = () => FakeSocket.all.map((ws) => ws.url);
+
+  latest().drop();
+  t.mock.timers.tick(0);
+  assert.deepEqual(dialed(), ['ws://a', 'ws://b']);   // Next candidate right away
+  for (const delay of [100, 200, 250]) {
+    latest().drop();
+    t.mock.timers.tick(0);                               // Back to the first candidate, after a pause
+    t.mock.timers.tick(delay - 1);
+    assert.equal(latest().url, 'ws://b');
+    t.mock.timers.tick(1);
+    assert.equal(latest().url, 'ws://a');
+    latest().drop();
+    t.mock.timers.tick(0);
+  }
+
+  // A connection that worked resets the backoff and sticks to its URL
+  latest().open();
+  latest().receive(ready('s1', false));
+  assert.equal(client.connected, true);
+  latest().drop();
+  t.mock.timers.tick(0);
+  assert.equal(latest().url, 'ws://b');
+  assert.deepEqual(statuses.slice(0, 3), ['connecting', 'reconnecting', 'reconnecting']);
+  assert.equal(statuses.at(-1), 'reconnecting');
+  client.close();
+});
+
+test('RelayClient resumes with the session token, replays the buffer and drops repeated finals', async (t) => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  t.mock.method(console, 'info', () => {});
+  t.mock.method(console, 'warn', () => {});
+  FakeSocket.all = [];
+  let issued = 0;
+  const finals: number[] = [];
+  const client = new RelayClient({
+    urls: ['ws://relay'],
+    authorize: async () => `t${++issued}`,
+    frameAudio: (pcm) => pcm,
+    onMessage: (msg) => { if (msg.type === 'transcript') finals.push(msg.seq ?? -1); },
+    onStatus: () => {},
+  });
+  client.connect();
+  await settle();
+  const first = latest();
+  assert.equal(first.url, 'ws://relay?token=t1');
+  first.open();
+  assert.equal(first.frames()[0].resume, undefined);
+  first.receive(ready('s1', false));
+  first.receive(final(1));
+  first.receive(final(2));
+
+  // Down: audio, a skip and a flush wait in the buffer
+  first.drop();
+  client.sendAudio(new ArrayBuffer(200));
+  client.skip(50);
+  client.flush('S1');
+  t.mock.timers.tick(0);
+  await settle();
+  const second = latest();
+  assert.equal(second.url, 'ws://relay?token=t1');   // No new token: the session belongs to t1
+  assert.equal(issued, 1);
+  second.open();
+  assert.deepEqual(second.frames()[0].resume, { sessionId: 's1', lastSeq: 2 });
+  second.receive(ready('s1', true));
+  assert.deepEqual(second.frames().slice(1), [100, { type: 'client.audio.skip', samples: 50 }, { type: 'client.flush', speaker: 'S1' }]);
+  second.receive(final(2));
+  second.receive(final(3));
+  assert.deepEqual(finals, [1, 2, 3]);
+
+  // The relay refuses the (expired) session token: start over with a fresh one
+  second.drop(CLOSE_CODES.UNAUTHORIZED);
+  t.mock.timers.tick(0);
+  await settle();
+  const third = latest();
+  assert.equal(third.url, 'ws://relay?token=t2');
+  third.open();
+  assert.equal(third.frames()[0].resume, undefined);
+  third.receive(ready('s2', false));
+  third.receive(final(1));
+  assert.deepEqual(finals, [1, 2, 3, 1]);
+  client.close();
+});
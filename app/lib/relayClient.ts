@@ -0,0 +1,320 @@
+/** BeyondConversation **
+ * Browser side of the relay connection, with automatic reconnect.
+ *
+ * - Walks the candidate URLs, then backs off exponentially (with jitter) and tries again.
+ * - Audio, skips and flushes captured while the socket is down (or mid-handshake) go into a
+ *   bounded ring buffer and are replayed, in order, once the relay says `ready`.
+ * - Every handshake asks to resume the previous relay session; finals the relay
+ *   re-sends are dropped if we already have their `seq`. The relay only hands a session
+ *   to the token that opened it, so resumes reuse that token (even once it has expired).
+ * - With `room` set the client is a read-only viewer: it subscribes instead, and
+ *   every (re)connect starts from a fresh `room.snapshot`.
+ * - With `onLatency` set it pings the relay while connected and reports each round trip.
+ */
+
+import {
+  AUDIO_SAMPLE_RATE,
+  CLOSE_CODES,
+  MAX_SKIP_SAMPLES,
+  PROTOCOL_VERSION,
+  encodeMessage,
+  parseServerMessage,
+  type ClientMessage,
+  type ConfigMessage,
+  type ServerMessage,
+} from './protocol';
+import { withToken } from './relay';
+
+export type RelayClientStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+type QueueItem = { kind: 'audio'; pcm: ArrayBuffer } | { kind: 'skip'; samples: number } | { kind: 'flush'; speaker?: string };
+
+// Bounded FIFO of audio chunks, skips and flush markers. When full, the oldest audio
+// becomes a skip of the same length: markers stay, so offsets and segments stay right.
+export class AudioRingBuffer {
+  private items: QueueItem[] = [];
+  private samples = 0;
+
+  constructor(private readonly maxSamples: number) {}
+
+  /** Queue an item; returns how many samples of older audio were dropped to make room. */
+  push(item: QueueItem): number {
+    const last = this.items[this.items.length - 1];
+    if (item.kind === 'skip' && last?.kind === 'skip') last.samples += item.samples;
+    else this.items.push(item);
+    if (item.kind === 'audio') this.samples += item.pcm.byteLength / 2;
+    let dropped = 0;
+    for (let i = 0; this.samples > this.maxSamples && i < this.items.length; i++) {
+      const it = this.items[i];
+      if (it.kind !== 'audio') continue;
+      const n = it.pcm.byteLength / 2;
+      this.samples -= n;
+      dropped += n;
+      // Fold into a skip right before it, if there is one
+      const prev = this.items[i - 1];
+      if (prev?.kind === 'skip') {
+        prev.samples += n;
+        this.items.splice(i--, 1);
+      } else {
+        this.items[i] = { kind: 'skip', samples: n };
+      }
+    }
+    return dropped;
+  }
+
+  drain(): QueueItem[] {
+    const out = this.items;
+    this.items = [];
+    this.samples = 0;
+    return out;
+  }
+
+  get seconds(): number {
+    return this.samples / AUDIO_SAMPLE_RATE;
+  }
+}
+
+export type RelayClientOptions = {
+  urls: string[];
+  /** Presenter handshake fields, re-read on every (re)connect. */
+  config?: () => Omit<ConfigMessage, 'type' | 'version' | 'resume'>;
+  /** Viewer: the room to subscribe to (no audio, no config). */
+  room?: string;
+  /** Fresh relay token for each connection attempt (null: relay has auth off). */
+  authorize?: () => Promise<string | null>;
+  onMessage: (msg: ServerMessage) => void;
+  onStatus: (status: RelayClientStatus) => void;
+  /** The relay ended the connection for good (a CLOSE_CODES value); no retry follows. */
+  onClosed?: (code: number, reason: string) => void;
+  /** Seconds of audio waiting in the ring buffer. */
+  onBuffered?: (seconds: number) => void;
+  /** Samples of older audio the full ring buffer dropped (replayed as a skip instead). */
+  onDropped?: (samples: number) => void;
+  /** Round-trip time of each ping/pong, in ms. */
+  onLatency?: (rttMs: number) => void;
+  pingIntervalMs?: number;
+  /** Wire frame for a PCM16 chunk: the raw buffer (binary transport) or a JSON string. */
+  frameAudio?: (pcm: ArrayBuffer) => ArrayBuffer | string;
+  maxBufferSeconds?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+};
+
+export class RelayClient {
+  private ws: WebSocket | null = null;
+  private ready = false;
+  private closedByUser = true;
+  private urlIndex = 0;
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly queue: AudioRingBuffer;
+  private sessionId: string | null = null;
+  // The token that opened `sessionId`, and the one the socket being dialed carries
+  private sessionToken: string | null = null;
+  private dialToken: string | null = null;
+  private lastSeq = 0;
+  private dialId = 0;
+  private pingTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private readonly opts: RelayClientOptions) {
+    this.queue = new AudioRingBuffer((opts.maxBufferSeconds ?? 30) * AUDIO_SAMPLE_RATE);
+  }
+
+  get connected(): boolean {
+    return this.ready;
+  }
+
+  connect() {
+    if (!this.closedByUser) return;
+    this.closedByUser = false;
+    this.open('connecting');
+  }
+
+  /** Intentional close: no reconnect, buffered audio is discarded. */
+  close() {
+    this.closedByUser = true;
+    this.dialId++;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.queue.drain();
+    this.opts.onBuffered?.(0);
+    this.stopPing();
+    const ws = this.ws;
+    this.ws = null;
+    this.ready = false;
+    try { ws?.close(); } catch {}
+    this.opts.onStatus('disconnected');
+  }
+
+  /** Push changed handshake fields (language, translation) to the live session. */
+  reconfigure() {
+    if (this.opts.config) this.send({ type: 'config', version: PROTOCOL_VERSION, ...this.opts.config() });
+  }
+
+  /** Control messages are only meaningful on a live session; they are not queued. */
+  send(msg: ClientMessage) {
+    if (this.ready && this.ws?.readyState === WebSocket.OPEN) this.ws.send(encodeMessage(msg));
+  }
+
+  /** PCM16 @ 24 kHz; queued while the relay is unreachable. */
+  sendAudio(pcm: ArrayBuffer) {
+    const ws = this.ws;
+    if (!this.opts.frameAudio) return;
+    if (!this.ready || !ws) return this.enqueue({ kind: 'audio', pcm });
+    ws.send(this.opts.frameAudio(pcm));
+  }
+
+  /** Commit request (with who was speaking, if known); queued in order with the audio it belongs to. */
+  flush(speaker?: string) {
+    const ws = this.ws;
+    if (!this.ready || !ws) return this.enqueue({ kind: 'flush', speaker });
+    ws.send(encodeMessage({ type: 'client.flush', speaker }));
+  }
+
+  /** Silence left out of the stream (VAD); queued in order like audio. Long gaps go out in MAX_SKIP_SAMPLES pieces. */
+  skip(samples: number) {
+    const ws = this.ws;
+    if (!this.ready || !ws) return this.enqueue({ kind: 'skip', samples });
+    for (let left = samples; left > 0; left -= MAX_SKIP_SAMPLES) {
+      ws.send(encodeMessage({ type: 'client.audio.skip', samples: Math.min(left, MAX_SKIP_SAMPLES) }));
+    }
+  }
+
+  // Ping right away, then every pingIntervalMs; pongs carry our timestamp back
+  private startPing() {
+    this.stopPing();
+    if (!this.opts.onLatency) return;
+    const ping = () => this.send({ type: 'ping', t: performance.now() });
+    ping();
+    this.pingTimer = setInterval(ping, this.opts.pingIntervalMs ?? 5000);
+  }
+
+  private stopPing() {
+    if (this.pingTimer) clearInterval(this.pingTimer);
+    this.pingTimer = null;
+  }
+
+  private enqueue(item: QueueItem) {
+    const dropped = this.queue.push(item);
+    if (dropped) this.opts.onDropped?.(dropped);
+    this.opts.onBuffered?.(this.queue.seconds);
+  }
+
+  private open(status: RelayClientStatus) {
+    this.opts.onStatus(status);
+    const url = this.opts.urls[this.urlIndex % this.opts.urls.length];
+    if (!this.opts.authorize) return this.dial(url, url);
+    if (this.sessionId && this.sessionToken) return this.dial(url, withToken(url, this.sessionToken), this.sessionToken);
+    // Fetch a token first; a close() (or newer attempt) in the meantime wins
+    const id = ++this.dialId;
+    this.opts.authorize().then(
+      (token) => { if (id === this.dialId && !this.closedByUser) this.dial(url, withToken(url, token), token); },
+      (err) => {
+        console.error('[WS] could not get a relay token', err);
+        if (id === this.dialId && !this.closedByUser) this.scheduleRetry(false);
+      },
+    );
+  }
+
+  // `url` names the candidate in logs; `target` may carry `token`
+  private dial(url: string, target: string, token: string | null = null) {
+    this.dialToken = token;
+    const ws = new WebSocket(target);
+    ws.binaryType = 'arraybuffer';
+    this.ws = ws;
+
+    ws.onopen = () => {
+      console.info('[WS] connected:', url);
+      if (this.opts.room !== undefined) {
+        ws.send(encodeMessage({ type: 'subscribe', version: PROTOCOL_VERSION, room: this.opts.room }));
+        return;
+      }
+      // Handshake; ask to resume the previous relay session if we had one
+      const resume = this.sessionId ? { sessionId: this.sessionId, lastSeq: this.lastSeq } : undefined;
+      ws.send(encodeMessage({ type: 'config', version: PROTOCOL_VERSION, language: 'en', ...this.opts.config?.(), resume }));
+    };
+
+    ws.onmessage = (ev: MessageEvent) => {
+      if (ws !== this.ws) return;
+      const parsed = parseServerMessage(typeof ev.data === 'string' ? ev.data : '');
+      if (!parsed.ok) {
+        console.warn('[client] bad relay frame:', parsed.message, ev.data);
+        ws.send(encodeMessage({ type: 'error', code: parsed.code, message: parsed.message }));
+        return;
+      }
+      const msg = parsed.message;
+
+      if (msg.type === 'room.snapshot') {
+        this.ready = true;
+        this.attempt = 0;
+        this.opts.onStatus('connected');
+        this.startPing();
+      }
+      if (msg.type === 'ready') {
+        if (!msg.resumed) this.lastSeq = 0;   // Fresh relay session: its seq numbering starts over
+        this.sessionId = msg.sessionId;
+        this.sessionToken = this.dialToken;
+        this.ready = true;
+        this.attempt = 0;
+        this.opts.onStatus('connected');
+        // Replay audio captured while we were away
+        for (const item of this.queue.drain()) {
+          if (item.kind === 'audio') this.sendAudio(item.pcm);
+          else if (item.kind === 'skip') this.skip(item.samples);
+          else this.flush(item.speaker);
+        }
+        this.opts.onBuffered?.(0);
+        this.startPing();
+      }
+      if (msg.type === 'pong') this.opts.onLatency?.(Math.round(performance.now() - msg.t));
+      if (msg.type === 'transcript' && msg.channel === 'final' && msg.seq !== undefined) {
+        if (msg.seq <= this.lastSeq) return;  // Already have it (replayed after a resume)
+        this.lastSeq = msg.seq;
+      }
+      this.opts.onMessage(msg);
+    };
+
+    ws.onclose = (ev) => {
+      if (ws !== this.ws) return;
+      console.warn('[WS] closed', url, ev.code, ev.reason);
+      const wasReady = this.ready;
+      this.ready = false;
+      this.ws = null;
+      this.stopPing();
+      if (this.closedByUser) return;
+      // Our session is gone and its token has expired: start over with a fresh one
+      if (ev.code === CLOSE_CODES.UNAUTHORIZED && this.sessionToken && this.dialToken === this.sessionToken) {
+        this.sessionId = null;
+        this.sessionToken = null;
+        this.scheduleRetry(true);
+        return;
+      }
+      // The relay closed us on purpose (operator, version mismatch, ...): retrying won't help
+      if ((Object.values(CLOSE_CODES) as number[]).includes(ev.code)) {
+        this.closedByUser = true;
+        this.opts.onStatus('disconnected');
+        this.opts.onClosed?.(ev.code, ev.reason);
+        return;
+      }
+      // Stick with a URL that worked; otherwise move on to the next candidate
+      if (!wasReady) this.urlIndex++;
+      this.scheduleRetry(wasReady);
+    };
+    ws.onerror = (err) => {
+      console.error('[WS] error', url, err);
+    };
+  }
+
+  private scheduleRetry(immediate: boolean) {
+    // Full pass over the candidates without luck → exponential backoff
+    const walkedAll = this.urlIndex % this.opts.urls.length === 0;
+    const base = this.opts.baseDelayMs ?? 500;
+    const max = this.opts.maxDelayMs ?? 10_000;
+    const delay = immediate || !walkedAll ? 0 : Math.min(max, base * 2 ** this.attempt++) * (0.5 + Math.random() / 2);
+    this.opts.onStatus('reconnecting');
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (!this.closedByUser) this.open('reconnecting');
+    }, delay);
+  }
+}
@@ -0,0 +1,32 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { SpeakerTracker, defaultSpeakerName } from './speakers';
+
+test('defaultSpeakerName', () => {
+  assert.equal(defaultSpeakerName('S3'), 'Speaker 3');
+  assert.equal(defaultSpeakerName('Guest'), 'Guest');
+});
+
+test('a low and a high voice get different labels', () => {
+  const t = new SpeakerTracker();
+  const low = t.assign([Math.log2(110), 0.05, 0.2]);
+  const high = t.assign([Math.log2(220), 0.12, 0.4]);
+  assert.equal(t.assign([Math.log2(112), 0.05, 0.21]), low);
+  assert.notEqual(low, high);
+  assert.equal(t.assign(null), null);
+});
+
+test('merged ids resolve to the speaker they were folded into', () => {
+  const t = new SpeakerTracker();
+  const a = t.assign([Math.log2(110), 0.05, 0.2]) ?? '';
+  const b = t.assign([Math.log2(220), 0.12, 0.4]) ?? '';
+  t.merge(b, a);
+  assert.equal(t.resolve(b), a);
+  assert.equal(t.assign([Math.log2(220), 0.12, 0.4]), a);
+});
+
+test('reset skips ids a restored transcript already uses', () => {
+  const t = new SpeakerTracker();
+  t.reset(['S1', 'S4', 'Guest']);
+  assert.equal(t.create(), 'S5');
+});
@@ -0,0 +1,90 @@
+/** BeyondConversation **
+ * On-device speaker labels: online clustering of per-commit voiceprints (see
+ * createVoiceprint in pcmWorklet.ts).
+ *
+ * Each cluster is a speaker id ('S1', 'S2', ...). A voiceprint joins the nearest
+ * cluster when it is close enough, otherwise it opens a new one. It is a heuristic:
+ * it tells a low voice from a high one well and two similar voices poorly, so the
+ * page lets people rename, merge and reassign what it guesses.
+ */
+
+import type { Voiceprint } from './pcmWorklet';
+
+export type Speaker = { id: string; name: string };
+
+// Per-dimension spread treated as "one unit" of difference: log2 pitch (0.25 ≈ 3
+// semitones), zero-crossing rate, brightness
+const FEATURE_SCALE = [0.25, 0.03, 0.1];
+const NEW_SPEAKER_DISTANCE = 1.2;
+const MAX_WEIGHT = 20;   // Centroids keep adapting instead of freezing on early turns
+
+type Cluster = { id: string; centroid: number[]; weight: number };
+
+export function defaultSpeakerName(id: string): string {
+  const n = /^S(\d+)$/.exec(id);
+  return n ? `Speaker ${n[1]}` : id;
+}
+
+export function voiceDistance(a: Voiceprint, b: Voiceprint): number {
+  let sum = 0;
+  for (let i = 0; i < FEATURE_SCALE.length; i++) sum += ((a[i] - b[i]) / FEATURE_SCALE[i]) ** 2;
+  return Math.sqrt(sum);
+}
+
+export class SpeakerTracker {
+  private clusters: Cluster[] = [];
+  private nextId = 1;
+  // Merged ids → the id they were folded into (finals still in flight use the old one)
+  private aliases = new Map<string, string>();
+
+  constructor(private readonly maxSpeakers = 8) {}
+
+  /** Label for a voiceprint; null when there is nothing to go on. */
+  assign(voice: Voiceprint | null): string | null {
+    if (!voice) return null;
+    let nearest: Cluster | null = null;
+    let distance = Infinity;
+    for (const c of this.clusters) {
+      const d = voiceDistance(c.centroid, voice);
+      if (d < distance) { distance = d; nearest = c; }
+    }
+    if (!nearest || (distance > NEW_SPEAKER_DISTANCE && this.clusters.length < this.maxSpeakers)) {
+      const id = this.create();
+      this.clusters.push({ id, centroid: [...voice], weight: 1 });
+      return id;
+    }
+    const w = Math.min(nearest.weight, MAX_WEIGHT);
+    nearest.centroid = nearest.centroid.map((v, i) => (v * w + voice[i]) / (w + 1));
+    nearest.weight++;
+    return nearest.id;
+  }
+
+  /** A fresh id with no voice attached (manual labels share the numbering). */
+  create(): string {
+    return `S${this.nextId++}`;
+  }
+
+  /** The id a label stands for now, after merges. */
+  resolve(id: string): string {
+    return this.aliases.get(id) ?? id;
+  }
+
+  /** Fold `from` into `into`; later turns that sound like either land on `into`. */
+  merge(from: string, into: string) {
+    for (const [alias, target] of this.aliases) if (target === from) this.aliases.set(alias, into);
+    this.aliases.set(from, into);
+    // Both voices stay as clusters of their own: an average would sound like neither
+    for (const c of this.clusters) if (c.id === from) c.id = into;
+  }
+
+  /** Start over; ids in `taken` (speakers of a restored transcript) are not handed out again. */
+  reset(taken: string[] = []) {
+    this.clusters = [];
+    this.aliases.clear();
+    this.nextId = 1;
+    for (const id of taken) {
+      const n = /^S(\d+)$/.exec(id);
+      if (n) this.nextId = Math.max(this.nextId, Number(n[1]) + 1);
+    }
+  }
+}
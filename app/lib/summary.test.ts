@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { SUMMARY_LIMITS, extractKeywords, mapSummaryText, parseSummary, parseSummaryRequest, summaryMarkdown, type MeetingSummary } from './summary';
+
+const recap: MeetingSummary = {
+  summary: 'Release planning.',
+  decisions: ['Ship on Friday'],
+  actionItems: [{ task: 'Write the changelog', owner: 'Ana', due: 'Thursday' }, { task: 'Book the room' }],
+  keywords: ['release', 'changelog'],
+};
+
+test('parseSummaryRequest', () => {
+  assert.deepEqual(parseSummaryRequest({ transcript: 'hi', language: 'en' }), { ok: true, request: { transcript: 'hi', language: 'en' } });
+  assert.deepEqual(parseSummaryRequest({ transcript: 'hi', language: '' }), { ok: true, request: { transcript: 'hi' } });
+  assert.equal(parseSummaryRequest({ transcript: '  ' }).ok, false);
+  assert.equal(parseSummaryRequest({ transcript: 'hi', language: 3 }).ok, false);
+  assert.equal(parseSummaryRequest({ transcript: 'x'.repeat(SUMMARY_LIMITS.transcriptChars + 1) }).ok, false);
+  assert.equal(parseSummaryRequest(null).ok, false);
+});
+
+test('parseSummary keeps what fits and drops the rest', () => {
+  assert.deepEqual(parseSummary({ ...recap, extra: true }), recap);
+  assert.deepEqual(
+    parseSummary({ summary: ' ok ', decisions: ['a', 2, ' '], actionItems: [{ task: 'x', owner: null }, { owner: 'Bo' }, 'y'], keywords: 'k' }),
+    { summary: 'ok', decisions: ['a'], actionItems: [{ task: 'x' }], keywords: [] },
+  );
+  assert.equal(parseSummary({ decisions: [] }), null);
+  assert.equal(parseSummary('text'), null);
+  assert.equal(parseSummary({ summary: 's', keywords: Array(40).fill('k') })?.keywords.length, SUMMARY_LIMITS.keywords);
+});
+
+test('mapSummaryText reaches every string but due dates', () => {
+  assert.deepEqual(mapSummaryText(recap, (t) => t.toUpperCase()), {
+    summary: 'RELEASE PLANNING.',
+    decisions: ['SHIP ON FRIDAY'],
+    actionItems: [{ task: 'WRITE THE CHANGELOG', owner: 'ANA', due: 'Thursday' }, { task: 'BOOK THE ROOM' }],
+    keywords: ['RELEASE', 'CHANGELOG'],
+  });
+});
+
+test('extractKeywords: frequent content words, ties by first use', () => {
+  assert.deepEqual(extractKeywords('The relay relays audio. Audio goes to the relay, and the relay answers.', 3), ['relay', 'audio', 'relays']);
+  assert.deepEqual(extractKeywords('Ana\'s budget and the budget review; Ana will review.'), ['budget', 'review']);
+  assert.deepEqual(extractKeywords(''), []);
+});
+
+test('summaryMarkdown', () => {
+  assert.equal(
+    summaryMarkdown(recap),
+    '## Summary\n\nRelease planning.\n\n### Decisions\n\n- Ship on Friday\n\n### Action items\n\n' +
+      '- [ ] Write the changelog — **Ana** (due Thursday)\n- [ ] Book the room\n\n**Keywords:** release, changelog\n',
+  );
+  assert.equal(summaryMarkdown({ summary: 'Short.', decisions: [], actionItems: [], keywords: [] }), '## Summary\n\nShort.\n');
+});
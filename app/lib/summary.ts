@@ -0,0 +1,96 @@
+/** BeyondConversation **
+ * Post-session recap: the request the page sends to the relay's POST /summarize and
+ * the structured summary that comes back (shown on the page, written into exports).
+ *
+ * Providers are asked for JSON in the MeetingSummary shape; `parseSummary` keeps what
+ * fits and drops the rest, so a chatty model can't break the page.
+ */
+
+export type ActionItem = { task: string; owner?: string; due?: string };
+
+export type MeetingSummary = {
+  summary: string;  // A few sentences
+  decisions: string[];
+  actionItems: ActionItem[];
+  keywords: string[];
+};
+
+// `transcript` is summaryTranscript() output: one "[m:ss.s] Name: text" line per final
+export type SummaryRequest = { transcript: string; language?: string };
+
+export const SUMMARY_LIMITS = { transcriptChars: 200_000, decisions: 20, actionItems: 30, keywords: 12 } as const;
+
+export function parseSummaryRequest(body: unknown): { ok: true; request: SummaryRequest } | { ok: false; message: string } {
+  const b = body as Record<string, unknown> | null;
+  if (!b || typeof b !== 'object' || typeof b.transcript !== 'string' || !b.transcript.trim()) {
+    return { ok: false, message: 'Expected a JSON object with a non-empty "transcript".' };
+  }
+  if (b.transcript.length > SUMMARY_LIMITS.transcriptChars) {
+    return { ok: false, message: `Transcripts are limited to ${SUMMARY_LIMITS.transcriptChars} characters.` };
+  }
+  if (b.language !== undefined && typeof b.language !== 'string') return { ok: false, message: '"language" must be a string.' };
+  return { ok: true, request: { transcript: b.transcript, ...(b.language ? { language: b.language } : {}) } };
+}
+
+const text = (v: unknown) => (typeof v === 'string' ? v.trim() : '');
+const texts = (v: unknown, max: number) => (Array.isArray(v) ? v.map(text).filter(Boolean).slice(0, max) : []);
+
+// A provider's answer (or the relay's response) as a MeetingSummary; null without summary text
+export function parseSummary(raw: unknown): MeetingSummary | null {
+  const r = raw as Record<string, unknown> | null;
+  if (!r || typeof r !== 'object' || !text(r.summary)) return null;
+  const actionItems: ActionItem[] = [];
+  for (const item of Array.isArray(r.actionItems) ? r.actionItems : []) {
+    const task = text(item?.task);
+    if (!task) continue;
+    const owner = text(item.owner);
+    const due = text(item.due);
+    actionItems.push({ task, ...(owner && { owner }), ...(due && { due }) });
+  }
+  return {
+    summary: text(r.summary),
+    decisions: texts(r.decisions, SUMMARY_LIMITS.decisions),
+    actionItems: actionItems.slice(0, SUMMARY_LIMITS.actionItems),
+    keywords: texts(r.keywords, SUMMARY_LIMITS.keywords),
+  };
+}
+
+// Run every piece of text through `fn` (the relay redacts what a provider returns)
+export function mapSummaryText(s: MeetingSummary, fn: (text: string) => string): MeetingSummary {
+  return {
+    summary: fn(s.summary),
+    decisions: s.decisions.map(fn),
+    actionItems: s.actionItems.map((a) => ({ ...a, task: fn(a.task), ...(a.owner && { owner: fn(a.owner) }) })),
+    keywords: s.keywords.map(fn),
+  };
+}
+
+const STOPWORDS = new Set((
+  'about above after again against all also and any are because been before being below between both but can could did does ' +
+  'doing down during each few for from further had has have having her here hers him his how into its just let lets more most ' +
+  'much need needs next now off once only other our ours out over own really same she should some such than that thats the their ' +
+  'them then there these they this those through too under until very was were what when where which while who whom why will ' +
+  'with would you your yours yeah okay right thanks thank going get got like know think want well good sure maybe one two'
+).split(' '));
+
+// Most frequent content words, ties by first use; no model needed (the mock provider's keywords)
+export function extractKeywords(source: string, max: number = SUMMARY_LIMITS.keywords): string[] {
+  const counts = new Map<string, number>();
+  for (const [word] of source.toLowerCase().matchAll(/\p{L}[\p{L}\p{N}'-]*/gu)) {
+    const w = word.replace(/'s$/, '');
+    if (w.length < 4 || STOPWORDS.has(w.replace(/'/g, ''))) continue;
+    counts.set(w, (counts.get(w) ?? 0) + 1);
+  }
+  // Map iteration follows first use, and sort is stable
+  return [...counts].sort((a, b) => b[1] - a[1]).slice(0, max).map(([w]) => w);
+}
+
+export function summaryMarkdown(s: MeetingSummary): string {
+  const out = ['## Summary', '', s.summary, ''];
+  if (s.decisions.length) out.push('### Decisions', '', ...s.decisions.map((d) => `- ${d}`), '');
+  if (s.actionItems.length) {
+    out.push('### Action items', '', ...s.actionItems.map((a) => `- [ ] ${a.task}${a.owner ? ` — **${a.owner}**` : ''}${a.due ? ` (due ${a.due})` : ''}`), '');
+  }
+  if (s.keywords.length) out.push(`**Keywords:** ${s.keywords.join(', ')}`, '');
+  return out.join('\n');
+}
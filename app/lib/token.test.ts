@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { issueToken, verifyToken } from './token';
+
+const SECRET = 'test-secret';
+const LIMITS = { maxSessionSec: 600, maxAudioSec: 300 };
+const NOW = Date.UTC(2025, 0, 1);
+
+test('issueToken / verifyToken round-trip the claims', () => {
+  const { token, claims } = issueToken(SECRET, 120, LIMITS, NOW);
+  assert.deepEqual(claims, { jti: claims.jti, iat: NOW / 1000, exp: NOW / 1000 + 120, ...LIMITS });
+  assert.deepEqual(verifyToken(token, SECRET, NOW + 119_000), { ok: true, claims });
+  assert.notEqual(issueToken(SECRET, 120, LIMITS, NOW).claims.jti, claims.jti);
+});
+
+test('verifyToken: an expired token still carries its claims', () => {
+  const { token, claims } = issueToken(SECRET, 120, LIMITS, NOW);
+  assert.deepEqual(verifyToken(token, SECRET, NOW + 120_000), { ok: false, reason: 'expired', claims });
+});
+
+test('verifyToken rejects tampered, foreign and malformed tokens', () => {
+  const { token } = issueToken(SECRET, 120, LIMITS, NOW);
+  const [payload, signature] = token.split('.');
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  const forged = Buffer.from(JSON.stringify({ ...claims, maxAudioSec: 1e9 })).toString('base64url');
+  const reason = (t: string | null) => {
+    const result = verifyToken(t, SECRET, NOW);
+    return result.ok ? 'ok' : result.reason;
+  };
+  assert.equal(reason(`${forged}.${signature}`), 'bad-signature');
+  assert.equal(reason(`${payload}.${signature.slice(0, -2)}`), 'bad-signature');
+  assert.equal(verifyToken(token, 'other-secret', NOW).ok, false);
+  assert.equal(reason(null), 'missing');
+  assert.equal(reason(''), 'missing');
+  assert.equal(reason(payload), 'malformed');
+  assert.equal(reason(`${token}.x`), 'malformed');
+  // Validly signed, but not claims
+  const junk = Buffer.from('"hello"').toString('base64url');
+  assert.equal(reason(`${junk}.${createHmac('sha256', SECRET).update(junk).digest('base64url')}`), 'malformed');
+});
@@ -0,0 +1,58 @@
+/** BeyondConversation **
+ * Short-lived relay tokens, shared by the Next.js token route (issuer) and the relay (verifier).
+ *
+ * A token is `<payload>.<signature>`, both base64url: the payload is JSON claims and
+ * the signature is HMAC-SHA256 over the encoded payload with RELAY_TOKEN_SECRET.
+ * Server-only: uses node:crypto.
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+
+export type RelayTokenClaims = {
+  jti: string;            // Token id; quotas are tracked per token
+  iat: number;            // Issued at, epoch seconds
+  exp: number;            // The handshake must happen before this, epoch seconds
+  maxSessionSec: number;  // Wall-clock cap on a session opened with this token
+  maxAudioSec: number;    // Cap on audio across all its sessions (streamed, or skipped as silence)
+};
+
+export type TokenLimits = Pick<RelayTokenClaims, 'maxSessionSec' | 'maxAudioSec'>;
+
+// An expired token still carries its (genuine) claims: the relay lets it resume the session it opened
+export type VerifyResult =
+  | { ok: true; claims: RelayTokenClaims }
+  | { ok: false; reason: 'missing' | 'malformed' | 'bad-signature' }
+  | { ok: false; reason: 'expired'; claims: RelayTokenClaims };
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+export function issueToken(secret: string, ttlSec: number, limits: TokenLimits, now = Date.now()): { token: string; claims: RelayTokenClaims } {
+  const iat = Math.floor(now / 1000);
+  const claims: RelayTokenClaims = { jti: randomUUID(), iat, exp: iat + ttlSec, ...limits };
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return { token: `${payload}.${sign(payload, secret)}`, claims };
+}
+
+export function verifyToken(token: string | null | undefined, secret: string, now = Date.now()): VerifyResult {
+  if (!token) return { ok: false, reason: 'missing' };
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return { ok: false, reason: 'malformed' };
+
+  const expected = Buffer.from(sign(payload, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return { ok: false, reason: 'bad-signature' };
+
+  let claims: RelayTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (typeof claims?.jti !== 'string' || ![claims.exp, claims.maxSessionSec, claims.maxAudioSec].every(Number.isFinite)) {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (claims.exp * 1000 <= now) return { ok: false, reason: 'expired', claims };
+  return { ok: true, claims };
+}
@@ -0,0 +1,174 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  annotatedLine,
+  annotationsText,
+  applyLineEdit,
+  composeTranscript,
+  editSegment,
+  findMatches,
+  formatCueTime,
+  formatOffset,
+  invertLineEdit,
+  isEdited,
+  mergeSegments,
+  parseTags,
+  smoothInterim,
+  splitSegment,
+  summaryTranscript,
+  toMarkdown,
+  toPlainText,
+  toSRT,
+  toTranscriptJSON,
+  toWebVTT,
+  type Annotation,
+  type LineEdit,
+  type Segment,
+} from './transcript';
+
+const seg: Segment = { id: 'a', seq: 1, commitId: 1, startMs: 1500, endMs: 3725, text: 'a < b', receivedAt: 0 };
+const said = (speaker: string, text: string): Segment => ({ ...seg, speaker, text });
+
+test('composeTranscript joins finals and the interim', () => {
+  assert.equal(composeTranscript(['hello', 'world'], ''), 'hello world');
+  assert.equal(composeTranscript(['hello'], 'there'), 'hello there');
+  assert.equal(composeTranscript([], 'there'), 'there');
+  assert.equal(composeTranscript([], ''), '');
+});
+
+test('smoothInterim keeps a longer interim the next one is a prefix of', () => {
+  assert.equal(smoothInterim('hello wor', 'hello'), 'hello wor');
+  assert.equal(smoothInterim('hi the', 'hello'), 'hello');
+  assert.equal(smoothInterim('', 'hello'), 'hello');
+  assert.equal(smoothInterim('hello', ''), '');
+});
+
+test('formatOffset', () => {
+  assert.equal(formatOffset(0), '0:00.0');
+  assert.equal(formatOffset(65_250), '1:05.3');
+  assert.equal(formatOffset(3_723_004), '1:02:03');
+  assert.equal(formatOffset(-5), '0:00.0');
+});
+
+test('formatCueTime', () => {
+  assert.equal(formatCueTime(3_723_004, ','), '01:02:03,004');
+  assert.equal(formatCueTime(1500, '.'), '00:00:01.500');
+});
+
+test('toSRT numbers cues and prefixes speakers', () => {
+  assert.equal(toSRT([seg]), '1\n00:00:01,500 --> 00:00:03,725\na < b\n');
+  assert.equal(toSRT([said('S1', 'hi')], 'original', { S1: 'Ana' }), '1\n00:00:01,500 --> 00:00:03,725\nAna: hi\n');
+  // Zero-length cues get a minimal duration
+  assert.equal(toSRT([{ ...seg, endMs: seg.startMs }]), '1\n00:00:01,500 --> 00:00:02,000\na < b\n');
+});
+
+test('toSRT picks the caption track', () => {
+  const both = { ...seg, text: 'hola', translation: 'hello' };
+  assert.equal(toSRT([both], 'translation'), '1\n00:00:01,500 --> 00:00:03,725\nhello\n');
+  assert.equal(toSRT([both], 'both'), '1\n00:00:01,500 --> 00:00:03,725\nhola\nhello\n');
+  assert.equal(toSRT([seg], 'translation'), '1\n00:00:01,500 --> 00:00:03,725\na < b\n');
+});
+
+test('toWebVTT escapes markup and uses voice spans', () => {
+  assert.equal(toWebVTT([seg]), 'WEBVTT\n\na\n00:00:01.500 --> 00:00:03.725\na &lt; b\n');
+  assert.equal(toWebVTT([said('S2', 'yo')]), 'WEBVTT\n\na\n00:00:01.500 --> 00:00:03.725\n<v Speaker 2>yo\n');
+});
+
+test('toPlainText groups a speaker\'s consecutive lines', () => {
+  assert.equal(toPlainText([said('S1', 'a'), said('S1', 'b'), said('S2', 'c')]), 'Speaker 1: a b\n\nSpeaker 2: c');
+  assert.equal(toPlainText([{ ...seg, text: 'x' }, { ...seg, text: ' ' }, { ...seg, text: 'y' }]), 'x y');
+});
+
+test('toTranscriptJSON and toMarkdown carry the export context', () => {
+  const meta = { title: 'Standup', language: 'en', exportedAt: '2026-01-01T00:00:00.000Z' };
+  const json = JSON.parse(toTranscriptJSON([seg], meta));
+  assert.equal(json.format, 'beyondconversation.transcript');
+  assert.deepEqual(json.segments, [seg]);
+  assert.equal(
+    toMarkdown([{ ...said('S1', 'hola'), translation: 'hello' }], meta),
+    '# Standup\n\n- **Language:** en\n- **Exported:** 2026-01-01T00:00:00.000Z\n\n**[0:01.5] Speaker 1:** hola\n> hello\n',
+  );
+});
+
+test('editSegment keeps what was transcribed until the edit is undone', () => {
+  const edited = editSegment(seg, 'a <= b');
+  assert.deepEqual([edited.text, edited.originalText], ['a <= b', 'a < b']);
+  assert.equal(isEdited(edited), true);
+  assert.equal(isEdited(editSegment(edited, 'a < b')), false);
+});
+
+test('editSegment moves redaction masks with the text', () => {
+  const masked: Segment = { ...seg, text: 'card [CARD] ok', redactions: [{ kind: 'card', start: 5, end: 11 }] };
+  assert.deepEqual(editSegment(masked, 'my card [CARD] is ok').redactions, [{ kind: 'card', start: 8, end: 14 }]);
+  assert.equal(editSegment(masked, 'no card').redactions, undefined);
+});
+
+test('splitSegment divides the time range by text, mergeSegments rejoins', () => {
+  const halves = splitSegment({ ...seg, text: 'one two' }, 3);
+  assert.ok(halves);
+  assert.deepEqual(halves.map((h) => [h.id, h.text, h.startMs, h.endMs]), [['aa', 'one', 1500, 2454], ['ab', 'two', 2454, 3725]]);
+  const merged = mergeSegments(halves[0], halves[1]);
+  assert.deepEqual([merged.text, merged.startMs, merged.endMs], ['one two', 1500, 3725]);
+  assert.equal(splitSegment(seg, 0), null);
+});
+
+test('applyLineEdit and its inverse', () => {
+  const halves = splitSegment({ ...seg, text: 'one two' }, 3) ?? [];
+  const split: LineEdit = { before: [seg], after: halves };
+  const later: Segment = { ...seg, id: 'b', seq: 2 };
+  const applied = applyLineEdit([seg, later], split);
+  assert.deepEqual(applied.map((l) => l.id), ['aa', 'ab', 'b']);
+  assert.deepEqual(applyLineEdit(applied, invertLineEdit(split)), [seg, later]);
+  // An edit whose lines are gone leaves the transcript alone
+  assert.deepEqual(applyLineEdit([later], split), [later]);
+});
+
+test('applyLineEdit keeps a translation that landed after the edit', () => {
+  const edit: LineEdit = { before: [seg], after: [editSegment(seg, 'a > b')] };
+  const translated = { ...seg, translation: 'a < b (fr)' };
+  assert.equal(applyLineEdit([translated], edit)[0].translation, 'a < b (fr)');
+});
+
+test('findMatches: every occurrence, case-insensitive, text before translation', () => {
+  const lines = [{ ...seg, id: 'a', text: 'Ship it. ship IT', translation: 'ship' }, { ...seg, id: 'b', text: 'nothing here' }];
+  assert.deepEqual(findMatches(lines, ' ship '), [
+    { lineId: 'a', field: 'text', start: 0, end: 4 },
+    { lineId: 'a', field: 'text', start: 9, end: 13 },
+    { lineId: 'a', field: 'translation', start: 0, end: 4 },
+  ]);
+  assert.deepEqual(findMatches(lines, 'a+b (c)'), []);
+  assert.deepEqual(findMatches(lines, '  '), []);
+});
+
+test('parseTags', () => {
+  assert.deepEqual(parseTags('#Decision, follow-up  #decision ##todo'), ['decision', 'follow-up', 'todo']);
+  assert.deepEqual(parseTags(' , '), []);
+});
+
+const bookmark: Annotation = { id: 'm1', kind: 'bookmark', lineId: 'a', atMs: 3725, tags: [], createdAt: 1 };
+const note: Annotation = { id: 'm2', kind: 'note', lineId: 'a', atMs: 1500, quote: 'a < b', comment: 'check', tags: ['todo'], createdAt: 2 };
+
+test('annotatedLine falls back to the line at its time once its own is gone', () => {
+  const halves = splitSegment({ ...seg, text: 'one two' }, 3) ?? [];
+  assert.equal(annotatedLine([seg], bookmark)?.id, 'a');
+  assert.equal(annotatedLine(halves, bookmark)?.id, 'ab');
+  assert.equal(annotatedLine(halves, { ...bookmark, atMs: 0 })?.id, 'aa');
+  assert.equal(annotatedLine([], bookmark), undefined);
+});
+
+test('annotations in the text, Markdown and JSON exports', () => {
+  assert.equal(annotationsText([]), '');
+  assert.equal(annotationsText([bookmark, note]), 'Bookmarks and notes\n[0:01.5] “a < b” — check #todo\n[0:03.7] Bookmark');
+  const meta = { exportedAt: '2026-01-01T00:00:00.000Z', annotations: [{ ...bookmark, comment: 'decision' }] };
+  assert.equal(toMarkdown([seg], meta), '# Transcript\n\n- **Exported:** 2026-01-01T00:00:00.000Z\n\n**[0:01.5]** a < b\n\n## Bookmarks and notes\n\n- **[0:03.7]** Bookmark: decision\n');
+  assert.deepEqual(JSON.parse(toTranscriptJSON([seg], meta)).annotations, meta.annotations);
+});
+
+test('summaryTranscript and the summary in the Markdown export', () => {
+  assert.equal(summaryTranscript([said('S1', 'hola '), said('S2', ' '), seg], { S1: 'Ana' }), '[0:01.5] Ana: hola\n[0:01.5] a < b');
+  const summary = { summary: 'Short.', decisions: [], actionItems: [{ task: 'Follow up', owner: 'Ana' }], keywords: [] };
+  assert.equal(
+    toMarkdown([seg], { exportedAt: '2026-01-01T00:00:00.000Z', summary }),
+    '# Transcript\n\n- **Exported:** 2026-01-01T00:00:00.000Z\n\n## Summary\n\nShort.\n\n### Action items\n\n- [ ] Follow up — **Ana**\n\n## Transcript\n\n**[0:01.5]** a < b\n',
+  );
+});
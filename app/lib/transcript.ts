@@ -0,0 +1,308 @@
+/** BeyondConversation **
+ * Transcript lines as the page keeps them: composing the live text, editing lines
+ * (with undo), searching and annotating them, and exporting them as text, captions,
+ * JSON or Markdown.
+ *
+ * Everything here is pure, so the history and room pages share it and tests run it
+ * under Node.
+ */
+
+import type { SegmentLatency } from './protocol';
+import type { Redaction } from './redaction';
+import { defaultSpeakerName } from './speakers';
+import { summaryMarkdown, type MeetingSummary } from './summary';
+
+// A final placed in the recorded audio: offsets are ms into the audio streamed this
+// session, `seq`/`commitId` are the relay's numbering, `receivedAt` is wall-clock.
+export type Segment = {
+  id: string;
+  seq: number;
+  commitId: number;
+  startMs: number;
+  endMs: number;
+  text: string;
+  translation?: string;
+  speaker?: string;     // Speaker id (see lib/speakers.ts); names live with the page
+  source?: string;      // Uploaded file it came from (offsets are then into that file)
+  originalText?: string; // What the relay transcribed, once the line has been edited
+  redactions?: Redaction[];  // Masked PII spans in `text`, kept in step with edits
+  latency?: SegmentLatency;  // How long the relay took to transcribe it (live lines only)
+  receivedAt: number;
+};
+
+// Merge finals + interim into a single display string
+export function composeTranscript(finals: string[], interim: string): string {
+  const base = finals.join(' ').trim();
+  return (base + (base && interim ? ' ' : '') + interim).trim();
+}
+
+// Very light interim smoothing to reduce flicker
+export function smoothInterim(prevInterim: string, nextInterim: string): string {
+  if (!prevInterim) return nextInterim;
+  if (!nextInterim) return '';
+  if (prevInterim.startsWith(nextInterim) && prevInterim.length > nextInterim.length) return prevInterim;
+  return nextInterim;
+}
+
+// Audio offset as m:ss.s (or h:mm:ss once past an hour)
+export function formatOffset(ms: number): string {
+  const total = Math.max(0, ms) / 1000;
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h) return `${h}:${String(m).padStart(2, '0')}:${String(Math.floor(s)).padStart(2, '0')}`;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+}
+
+// ---------- Line edits ----------
+// Every edit replaces a run of adjacent lines (`before`) with `after`; undo swaps them
+export type LineEdit = { before: Segment[]; after: Segment[] };
+
+export function isEdited(seg: Segment): boolean {
+  return seg.originalText !== undefined && seg.originalText !== seg.text;
+}
+
+// Find each mask again in edited text, in order; masks the edit removed are dropped
+export function carryRedactions(from: string, to: string, redactions?: Redaction[]): Redaction[] | undefined {
+  if (!redactions?.length) return redactions;
+  const out: Redaction[] = [];
+  let cursor = 0;
+  for (const r of [...redactions].sort((a, b) => a.start - b.start)) {
+    const masked = from.slice(r.start, r.end);
+    const at = to.indexOf(masked, cursor);
+    if (!masked || at < 0) continue;
+    out.push({ ...r, start: at, end: at + masked.length });
+    cursor = at + masked.length;
+  }
+  return out.length ? out : undefined;
+}
+
+// New text for a line; the first edit stashes what was transcribed
+export function editSegment(seg: Segment, text: string): Segment {
+  const originalText = seg.originalText ?? seg.text;
+  const redactions = carryRedactions(seg.text, text, seg.redactions);
+  return { ...seg, text, redactions, originalText: originalText === text ? undefined : originalText };
+}
+
+// Split at a character offset; the time range is divided in proportion to the text.
+// A corrected line's transcription can't be divided up, so it stays with the head.
+export function splitSegment(seg: Segment, at: number): [Segment, Segment] | null {
+  const head = seg.text.slice(0, at).trim();
+  const tail = seg.text.slice(at).trim();
+  if (!head || !tail) return null;
+  const mid = Math.round(seg.startMs + ((seg.endMs - seg.startMs) * at) / seg.text.length);
+  return [
+    { ...seg, id: `${seg.id}a`, text: head, endMs: mid, redactions: carryRedactions(seg.text, head, seg.redactions?.filter((r) => r.end <= at)), originalText: isEdited(seg) ? seg.originalText : undefined },
+    { ...seg, id: `${seg.id}b`, text: tail, startMs: mid, redactions: carryRedactions(seg.text, tail, seg.redactions?.filter((r) => r.start >= at)), translation: undefined, originalText: undefined },
+  ];
+}
+
+export function mergeSegments(a: Segment, b: Segment): Segment {
+  const join = (x?: string, y?: string) => [x, y].filter(Boolean).join(' ') || undefined;
+  const text = join(a.text, b.text) ?? '';
+  const originalText = isEdited(a) || isEdited(b) ? join(a.originalText ?? a.text, b.originalText ?? b.text) : undefined;
+  const shift = a.text ? a.text.length + 1 : 0;
+  const moved = (b.redactions || []).map((r) => ({ ...r, start: r.start + shift, end: r.end + shift }));
+  const redactions = [...(a.redactions || []), ...moved];
+  return { ...a, endMs: Math.max(a.endMs, b.endMs), text, translation: join(a.translation, b.translation), originalText, redactions: redactions.length ? redactions : undefined };
+}
+
+export function invertLineEdit(edit: LineEdit): LineEdit {
+  return { before: edit.after, after: edit.before };
+}
+
+// Lines that arrived since are untouched; a translation that landed on a replaced
+// line since the edit is carried over. Returns the lines unchanged if the edit no
+// longer applies.
+export function applyLineEdit(lines: Segment[], edit: LineEdit): Segment[] {
+  const at = lines.findIndex((ln) => ln.id === edit.before[0]?.id);
+  if (at < 0 || edit.before.some((b, i) => lines[at + i]?.id !== b.id)) return lines;
+  const current = new Map(lines.slice(at, at + edit.before.length).map((ln) => [ln.id, ln]));
+  const after = edit.after.map((ln) => (ln.translation === undefined && current.get(ln.id)?.translation
+    ? { ...ln, translation: current.get(ln.id)?.translation }
+    : ln));
+  return [...lines.slice(0, at), ...after, ...lines.slice(at + edit.before.length)];
+}
+
+// ---------- Search and annotations ----------
+// Where a query occurs: `start`/`end` index the line's text or its translation
+export type SearchMatch = { lineId: string; field: 'text' | 'translation'; start: number; end: number };
+
+// A moment flagged during a session: a bookmark (Alt+B) or a note on selected text
+export type Annotation = {
+  id: string;
+  kind: 'bookmark' | 'note';
+  lineId?: string;   // The line it was made on; absent when made before the first line
+  atMs: number;      // Audio offset, so it can be placed again once its line is split or merged
+  quote?: string;    // The selected text a note was taken from
+  comment?: string;
+  tags: string[];
+  createdAt: number;
+};
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Case-insensitive, every occurrence, in transcript order (a line's text before its translation)
+export function findMatches(lines: Segment[], query: string): SearchMatch[] {
+  const q = query.trim();
+  if (!q) return [];
+  const pattern = new RegExp(escapeRegExp(q), 'giu');
+  const out: SearchMatch[] = [];
+  for (const ln of lines) {
+    for (const field of ['text', 'translation'] as const) {
+      for (const m of (ln[field] ?? '').matchAll(pattern)) {
+        const start = m.index ?? 0;
+        out.push({ lineId: ln.id, field, start, end: start + m[0].length });
+      }
+    }
+  }
+  return out;
+}
+
+// "#decision, follow-up" → ['decision', 'follow-up']
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(/[\s,]+/).map((t) => t.replace(/^#+/, '').toLowerCase()).filter(Boolean))];
+}
+
+// The line an annotation belongs to: its own, or the one covering its time once that line was split or merged away
+export function annotatedLine(lines: Segment[], a: Annotation): Segment | undefined {
+  return lines.find((ln) => ln.id === a.lineId) ?? lines.findLast((ln) => ln.startMs <= a.atMs) ?? lines[0];
+}
+
+export function describeAnnotation(a: Annotation): string {
+  const what = a.kind === 'bookmark' ? 'Bookmark' : `“${a.quote ?? ''}”`;
+  const comment = a.comment?.trim() ? `${a.kind === 'bookmark' ? ':' : ' —'} ${a.comment.trim()}` : '';
+  return `${what}${comment}${a.tags.map((t) => ` #${t}`).join('')}`;
+}
+
+// In transcript order; ones made at the same moment in the order they were made
+export function sortAnnotations(annotations: Annotation[]): Annotation[] {
+  return [...annotations].sort((a, b) => a.atMs - b.atMs || a.createdAt - b.createdAt);
+}
+
+// ---------- Exports ----------
+// Context written into the structured exports
+export type ExportFormat = 'txt' | 'srt' | 'vtt' | 'json' | 'md';
+// Which text the caption cues carry when a translation is present
+export type CueTrack = 'original' | 'translation' | 'both';
+export type ExportMeta = {
+  title?: string;
+  language?: string;
+  translateTo?: string;
+  speakers?: Record<string, string>;  // Speaker id → display name
+  annotations?: Annotation[];
+  summary?: MeetingSummary;
+  exportedAt: string;  // ISO timestamp, passed in so the formatters stay pure
+};
+
+// Cue timestamp: HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+export function formatCueTime(ms: number, sep: ',' | '.'): string {
+  const t = Math.max(0, Math.round(ms));
+  const h = Math.floor(t / 3_600_000);
+  const m = Math.floor((t % 3_600_000) / 60_000);
+  const s = Math.floor((t % 60_000) / 1000);
+  const pad = (n: number, w = 2) => String(n).padStart(w, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${sep}${pad(t % 1000, 3)}`;
+}
+
+// Players skip zero-length cues; give those a minimal visible duration
+const MIN_CUE_MS = 500;
+function cueEnd(seg: Segment): number {
+  return Math.max(seg.endMs, seg.startMs + MIN_CUE_MS);
+}
+
+// Display name of a segment's speaker ('' when unlabeled)
+export function speakerName(seg: Segment, names?: Record<string, string>): string {
+  if (!seg.speaker) return '';
+  return names?.[seg.speaker] || defaultSpeakerName(seg.speaker);
+}
+
+// Cue body for a track; segments without a translation fall back to the original
+export function cueText(seg: Pick<Segment, 'text' | 'translation'>, track: CueTrack): string {
+  const original = seg.text.trim();
+  const translation = seg.translation?.trim();
+  if (!translation || track === 'original') return original;
+  return track === 'translation' ? translation : `${original}\n${translation}`;
+}
+
+export function toSRT(segments: Segment[], track: CueTrack = 'original', names?: Record<string, string>): string {
+  return segments
+    .filter((s) => s.text.trim())
+    .map((s, i) => {
+      const who = speakerName(s, names);
+      return `${i + 1}\n${formatCueTime(s.startMs, ',')} --> ${formatCueTime(cueEnd(s), ',')}\n${who ? `${who}: ` : ''}${cueText(s, track)}\n`;
+    })
+    .join('\n');
+}
+
+// WebVTT cue text is markup: escape it (this also defuses a stray "-->")
+function vttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Speakers become voice spans: <v Name>text
+export function toWebVTT(segments: Segment[], track: CueTrack = 'original', names?: Record<string, string>): string {
+  const cues = segments
+    .filter((s) => s.text.trim())
+    .map((s) => {
+      const who = speakerName(s, names);
+      return `${s.id}\n${formatCueTime(s.startMs, '.')} --> ${formatCueTime(cueEnd(s), '.')}\n${who ? `<v ${vttText(who)}>` : ''}${vttText(cueText(s, track))}\n`;
+    });
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+// Consecutive lines by the same speaker form one paragraph; unlabeled text runs on
+export function toPlainText(segments: Segment[], names?: Record<string, string>): string {
+  const paragraphs: { who: string; text: string[] }[] = [];
+  for (const s of segments) {
+    const text = s.text.trim();
+    if (!text) continue;
+    const who = speakerName(s, names);
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.who === who) last.text.push(text);
+    else paragraphs.push({ who, text: [text] });
+  }
+  return paragraphs.map((p) => `${p.who ? `${p.who}: ` : ''}${p.text.join(' ')}`).join('\n\n');
+}
+
+// Lossless: every segment field as-is, plus the export context
+export function toTranscriptJSON(segments: Segment[], meta: ExportMeta): string {
+  return JSON.stringify({ format: 'beyondconversation.transcript', version: 1, ...meta, segments }, null, 2) + '\n';
+}
+
+export function toMarkdown(segments: Segment[], meta: ExportMeta): string {
+  const head = [`# ${meta.title || 'Transcript'}`, ''];
+  if (meta.language) head.push(`- **Language:** ${meta.language}`);
+  if (meta.translateTo) head.push(`- **Translated to:** ${meta.translateTo}`);
+  head.push(`- **Exported:** ${meta.exportedAt}`, '');
+  const body = segments
+    .filter((s) => s.text.trim())
+    .map((s) => {
+      const who = speakerName(s, meta.speakers);
+      return `**[${formatOffset(s.startMs)}]${who ? ` ${who}:` : ''}** ${s.text.trim()}\n${s.translation ? `> ${s.translation.trim()}\n` : ''}`;
+    });
+  const notes = sortAnnotations(meta.annotations ?? []).map((a) => `- **[${formatOffset(a.atMs)}]** ${describeAnnotation(a)}`);
+  const tail = notes.length ? ['## Bookmarks and notes\n', `${notes.join('\n')}\n`] : [];
+  // The recap goes first; the transcript then needs its own heading
+  const recap = meta.summary ? [summaryMarkdown(meta.summary), '## Transcript\n'] : [];
+  return [...head, ...recap, ...body, ...tail].join('\n');
+}
+
+// What POST /summarize reads: one "[m:ss.s] Name: text" line per final
+export function summaryTranscript(segments: Segment[], names?: Record<string, string>): string {
+  return segments
+    .filter((s) => s.text.trim())
+    .map((s) => {
+      const who = speakerName(s, names);
+      return `[${formatOffset(s.startMs)}] ${who ? `${who}: ` : ''}${s.text.trim()}`;
+    })
+    .join('\n');
+}
+
+// Trailer for the plain-text export ('' when there is nothing to list)
+export function annotationsText(annotations: Annotation[]): string {
+  if (!annotations.length) return '';
+  return ['Bookmarks and notes', ...sortAnnotations(annotations).map((a) => `[${formatOffset(a.atMs)}] ${describeAnnotation(a)}`)].join('\n');
+}
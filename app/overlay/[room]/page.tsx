@@ -0,0 +1,142 @@
+'use client';
+
+/** BeyondConversation **
+ * Caption overlay for a presenter's room (/overlay/<room>?size=48&position=top…): the
+ * latest lines and the interim on a transparent page, for OBS browser sources and
+ * slides. It subscribes like a viewer, so no second mic is opened. Options: lib/overlay.ts.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'next/navigation';
+import { CLOSE_CODES, type ServerMessage } from '../../lib/protocol';
+import { RelayClient } from '../../lib/relayClient';
+import { candidateWsUrls, fetchRelayToken } from '../../lib/relay';
+import { defaultSpeakerName } from '../../lib/speakers';
+import { cueText, smoothInterim } from '../../lib/transcript';
+import { OVERLAY_LIMITS, parseOverlayOptions, visibleLines, type OverlayLine } from '../../lib/overlay';
+
+const JUSTIFY = { top: 'flex-start', center: 'center', bottom: 'flex-end' } as const;
+
+export default function CaptionOverlay(): React.JSX.Element | null {
+  const { room } = useParams<{ room: string }>();
+  const opts = parseOverlayOptions(useSearchParams());
+  const [lines, setLines] = useState<OverlayLine[]>([]);
+  const [interim, setInterim] = useState('');
+  const [ended, setEnded] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  // OBS and slide tools composite this page: the app's body color must not paint behind the captions
+  useEffect(() => {
+    const { documentElement: html, body } = document;
+    const before = [html.style.background, body.style.background];
+    html.style.background = 'transparent';
+    body.style.background = 'transparent';
+    return () => {
+      [html.style.background, body.style.background] = before;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!room) return;
+    const keep = (prev: OverlayLine[]) => prev.slice(-OVERLAY_LIMITS.lines);
+    const onMessage = (msg: ServerMessage) => {
+      switch (msg.type) {
+        case 'room.snapshot': {
+          const shownAt = Date.now();
+          setLines(keep(msg.segments.map(({ seq, text, translation, speaker }) => ({ seq, text, translation, speaker, shownAt }))));
+          setInterim(msg.interim);
+          return;
+        }
+        case 'room.state':
+          if (msg.paused) setInterim('');
+          return;
+        case 'room.cleared':
+          setLines([]);
+          setInterim('');
+          return;
+        case 'transcript':
+          if (msg.channel === 'interim') {
+            setInterim((prev) => smoothInterim(prev, msg.text));
+          } else if (msg.channel === 'final') {
+            const { seq = 0, text, speaker } = msg;
+            setLines((prev) => keep([...prev, { seq, text, speaker, shownAt: Date.now() }]));
+            setInterim('');
+          } else {
+            setLines((prev) => prev.map((ln) => (ln.seq === msg.seq ? { ...ln, translation: msg.text } : ln)));
+          }
+          return;
+        case 'error':
+          console.error(`[overlay] relay reported ${msg.code}:`, msg.message);
+          return;
+      }
+    };
+    const client = new RelayClient({
+      urls: candidateWsUrls(),
+      room,
+      authorize: fetchRelayToken,
+      onMessage,
+      onStatus: () => {},
+      onClosed: (code) => setEnded(
+        code === CLOSE_CODES.ROOM_NOT_FOUND ? `No live room "${room}".`
+          : code === CLOSE_CODES.UNAUTHORIZED ? 'The relay rejected our access token.'
+            : null,
+      ),
+    });
+    client.connect();
+    return () => client.close();
+  }, [room]);
+
+  // Re-render while lines can still time out
+  useEffect(() => {
+    if (!opts.timeoutMs) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [opts.timeoutMs]);
+
+  const shown = visibleLines(lines, now, opts);
+  // The interim is in the spoken language; a translation-only overlay waits for the final
+  const live = opts.track === 'translation' ? '' : interim;
+  const boxed = opts.background !== null;
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        justifyContent: JUSTIFY[opts.position],
+        alignItems: 'center',
+        padding: '4vh 4vw',
+        fontFamily: opts.font,
+        fontSize: opts.size,
+        lineHeight: 1.3,
+        color: opts.color,
+        pointerEvents: 'none',
+      }}
+    >
+      {(ended || shown.length > 0 || live) && (
+        <div
+          style={{
+            maxWidth: '100%',
+            textAlign: 'center',
+            whiteSpace: 'pre-wrap',
+            padding: boxed ? '0.2em 0.5em' : 0,
+            borderRadius: 8,
+            background: opts.background ?? 'transparent',
+            textShadow: boxed ? undefined : '0 0 3px #000, 0 0 6px #000',
+          }}
+        >
+          {ended && <div style={{ fontSize: '0.5em', opacity: 0.8 }}>{ended}</div>}
+          {shown.map((ln) => (
+            <div key={ln.seq}>
+              {opts.speakers && ln.speaker && <span style={{ opacity: 0.7 }}>{defaultSpeakerName(ln.speaker)}: </span>}
+              {cueText(ln, opts.track)}
+            </div>
+          ))}
+          {live && <div style={{ opacity: 0.75 }}>{live}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -8,19 +8,54 @@
  *   server/.env
  *     OPENAI_API_KEY=your-openai-api-key
  *     OPENAI_REALTIME_MODEL=openai-model-you-want-to-use
+ *     OPENAI_TRANSLATION_MODEL=chat-model-for-translation   (default: gpt-4o-mini; used when "Translate to" is on)
+ *     OPENAI_SUMMARY_MODEL=chat-model-for-recaps            (default: the translation model; used by "Summarize")
  *     PORT=port-number-you-use
+ *     TRANSCRIPTION_PROVIDER=openai | mock   (mock: offline, no key; answers from MOCK_SCRIPT)
+ *     MOCK_SCRIPT=path/to/script.json        (default: server/fixtures/mock-script.json)
+ *     RECORD_SESSIONS=1                      (keep audio + transcripts; browse them at /history)
+ *     RECORDINGS_DIR=path/to/recordings      (default: server/recordings)
+ *     REDACT=card,email,phone:last4          (mask PII in every session; kind[:label|mask|last4])
+ *     METRICS_TOKEN=scrape-secret            (Bearer token for GET /metrics; unset: open)
+ *     ADMIN_TOKEN=operator-secret            (Bearer token for /sessions and /recordings; unset: open only while auth is off)
+ *
+ *     RELAY_TOKEN_SECRET=long-random-string      (turns on token auth; same value in web/.env.local)
  *
  *   web/.env.local
  *     NEXT_PUBLIC_WS_URL=your-public-ws-url
+ *     RELAY_TOKEN_SECRET=long-random-string      (signs tokens at /api/relay-token)
+ *     RELAY_MAX_SESSION_SEC=3600 / RELAY_MAX_AUDIO_SEC=1800   (per-token limits)
+ *     RELAY_TOKEN_RATE_PER_MIN=30                (tokens per minute for all callers, or per IP with TRUST_PROXY; the route
+ *                                                 also refuses cross-origin requests. Every visitor can get tokens: put
+ *                                                 the app behind a login to restrict it)
+ *     TRUST_PROXY=1                              (a reverse proxy in front sets x-forwarded-for)
+ *
+ * * Server
+ *   cd app/server && npm start   (runs index.js through tsx so it can share app/lib/protocol.ts)
+ *
+ * * Tests
+ *   npm test   (node:test through tsx: app/lib/*.test.ts, plus app/server/integration.test.js,
+ *              which runs the relay against a fake Realtime server; needs app/server deps installed)
  */
 
  import React, { useEffect, useRef, useState } from 'react';
+ import Link from 'next/link';
+ import { AUDIO_SAMPLE_RATE, encodeMessage, type AudioTransport, type ClientMessage, type RelayStatus, type ServerMessage, type TranscriptMessage } from './lib/protocol';
+ import { DEFAULT_VAD, PCM_PROCESSOR, pcmWorkletSource, type LevelReading, type VadConfig, type Voiceprint, type WorkletEvent } from './lib/pcmWorklet';
+ import { RelayClient, type RelayClientStatus } from './lib/relayClient';
+ import { candidateWsUrls, fetchRelayToken, formatMs, relayCloseReason, requestSummary, summarizeLatency } from './lib/relay';
+ import { annotatedLine, annotationsText, applyLineEdit, composeTranscript, editSegment, findMatches, formatOffset, invertLineEdit, isEdited, mergeSegments, parseTags, smoothInterim, sortAnnotations, splitSegment, summaryTranscript, toMarkdown, toPlainText, toSRT, toTranscriptJSON, toWebVTT, type Annotation, type CueTrack, type ExportFormat, type ExportMeta, type LineEdit, type SearchMatch, type Segment } from './lib/transcript';
+ import { base64FromPCM16, downmix, downsampleTo24kHz, planUpload } from './lib/audio';
+ import { CAPTURE_KINDS, DEFAULT_PROCESSING, friendlyMicError, isSecureRuntime, levelPercent, micConstraints, type AudioProcessing, type CaptureError, type CaptureKind, type CaptureSource } from './lib/capture';
+ import { SpeakerTracker, defaultSpeakerName, type Speaker } from './lib/speakers';
+ import { GLOSSARY_LIMITS, parseGlossary, type GlossaryTerm } from './lib/glossary';
+ import type { MeetingSummary } from './lib/summary';
+ import { LocalTranscriptStore, TRASH_RETENTION_MS, newLocalSessionId, type LocalSessionSummary } from './lib/localStore';
+ import { MASK_STYLES, REDACTION_KINDS, type MaskStyle, type Redaction, type RedactionConfig, type RedactionKind } from './lib/redaction';
 
- // ---------- Small utilities (pure/testable where possible) ----------
- const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
- 
- function downloadText(filename: string, text: string) {
-   const blob = new Blob([text], { type: 'text/plain;charset=utf-8' });
+ // ---------- Small utilities (the pure ones live in lib/) ----------
+ function downloadText(filename: string, text: string, mime = 'text/plain;charset=utf-8') {
+   const blob = new Blob([text], { type: mime });
    const url = URL.createObjectURL(blob);
    const a = document.createElement('a');
    a.href = url;
@@ -28,180 +63,211 @@
    a.click();
    URL.revokeObjectURL(url);
  }
- 
- // Merge finals + interim into a single display string (pure & testable)
- export function composeTranscript(finals: string[], interim: string): string {
-   const base = finals.join(' ').trim();
-   return (base + (base && interim ? ' ' : '') + interim).trim();
- }
- 
- // Very light interim smoothing to reduce flicker
- export function smoothInterim(prevInterim: string, nextInterim: string): string {
-   if (!prevInterim) return nextInterim;
-   if (!nextInterim) return '';
-   if (prevInterim.startsWith(nextInterim) && prevInterim.length > nextInterim.length) return prevInterim;
-   return nextInterim;
- }
- 
- // PCM utils (pure)
- export function floatToPCM16(f32: Float32Array): Int16Array {
-   const out = new Int16Array(f32.length);
-   for (let i = 0; i < f32.length; i++) {
-     const s = Math.max(-1, Math.min(1, f32[i]));
-     out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-   }
-   return out;
- }
- 
- export function base64FromPCM16(i16: Int16Array): string {
-   const buf = new Uint8Array(i16.buffer);
-   let bin = '';
-   for (let i = 0; i < buf.byteLength; i++) bin += String.fromCharCode(buf[i]);
-   // eslint-disable-next-line no-undef
-   return btoa(bin);
+
+ // Default name of a transcript saved in the browser
+ function localSessionName(at = new Date()): string {
+   return `Session ${at.toLocaleString()}`;
  }
- 
- // Downsample from srcRate to 24000 Hz, mono
- export function downsampleTo24kHz(samples: Float32Array, srcRate: number): Float32Array {
-   if (srcRate === 24000) return samples;
-   const ratio = srcRate / 24000;
-   const newLen = Math.floor(samples.length / ratio);
-   const out = new Float32Array(newLen);
-   let acc = 0;
-   let idx = 0;
-   for (let i = 0; i < newLen; i++) {
-     const nextAcc = (i + 1) * ratio;
-     let sum = 0, count = 0;
-     while (acc < nextAcc && idx < samples.length) {
-       sum += samples[idx++];
-       count++;
-       acc++;
+
+ // Line text with the relay's masked spans and search matches marked (`current` stands out)
+ function MarkedText({ text, redactions, matches, current }: { text: string; redactions?: Redaction[]; matches?: SearchMatch[]; current?: SearchMatch | null }): React.JSX.Element {
+   const masks = (redactions || []).filter((r) => r.end <= text.length);
+   if (!masks.length && !matches?.length) return <>{text}</>;
+   // Cut at every edge; each piece is inside a mask, a match, both or neither
+   const cuts = [...new Set([0, text.length, ...masks.flatMap((r) => [r.start, r.end]), ...(matches || []).flatMap((m) => [m.start, m.end])])].sort((a, b) => a - b);
+   const parts: React.ReactNode[] = [];
+   for (let i = 0; i < cuts.length - 1; i++) {
+     const [from, to] = [cuts[i], cuts[i + 1]];
+     const mask = masks.find((r) => r.start <= from && to <= r.end);
+     const match = matches?.find((m) => m.start <= from && to <= m.end);
+     if (!mask && !match) {
+       parts.push(text.slice(from, to));
+       continue;
      }
-     out[i] = count ? sum / count : 0;
+     const style: React.CSSProperties = mask ? { background: '#e5e7eb', borderRadius: 4, padding: '0 3px', color: '#374151' } : {};
+     if (match) style.background = match === current ? '#fb923c' : '#fde68a';
+     parts.push(<span key={from} title={mask ? `Redacted ${mask.kind}` : undefined} style={style}>{text.slice(from, to)}</span>);
    }
-   return out;
+   return <>{parts}</>;
  }
- 
- // Secure origin helpers
- export function isSecureOriginLike(hostname: string, protocol: string): boolean {
-   const isLocalhost = ['localhost', '127.0.0.1', '::1'].includes(hostname);
-   return protocol === 'https:' || isLocalhost;
- }
- function isSecureRuntime(): boolean {
-   try {
-     // @ts-ignore
-     if (typeof window !== 'undefined' && window.isSecureContext) return true;
-     if (typeof location !== 'undefined') return isSecureOriginLike(location.hostname, location.protocol);
-   } catch {}
-   return false;
+
+ type WsStatus = RelayClientStatus | RelayStatus;
+
+ const UPLOAD_SPEED = 8;           // Uploads stream at this multiple of real time
+ const UPLOAD_SETTLE_MS = 3000;    // Upload is done once the relay has been quiet this long
+ const UPLOAD_READY_MS = 15000;    // Give up on an upload whose relay never says ready this soon
+
+ type UploadProgress = { name: string; phase: 'decoding' | 'streaming' | 'finishing'; progress: number };
+
+ const LANGUAGES = [
+   ['en', 'English'],
+   ['ko', 'Korean'],
+   ['es', 'Spanish'],
+   ['de', 'German'],
+   ['ja', 'Japanese'],
+ ] as const;
+
+ // Speaker labels: clustered from voiceprints, picked by hand ("now speaking"), or none
+ type SpeakerMode = 'auto' | 'manual' | 'off';
+ const NEW_SPEAKER = '+new';
+ const MAX_UNDO = 200;
+ const RTT_WINDOW = 30;   // Round trips kept for the stats panel (one ping every 5 s)
+ const GLOSSARY_STORAGE_KEY = 'beyondconversation.glossary';
+ const MIC_STORAGE_KEY = 'beyondconversation.mic';
+ const PROCESSING_LABELS: Record<keyof AudioProcessing, string> = {
+   echoCancellation: 'Echo cancellation',
+   noiseSuppression: 'Noise suppression',
+   autoGainControl: 'Auto gain',
+ };
+ const REDACTION_LABELS: Record<RedactionKind, string> = {
+   email: 'Emails',
+   card: 'Card numbers',
+   iban: 'IBANs',
+   ssn: 'SSNs',
+   ip: 'IP addresses',
+   phone: 'Phone numbers',
+ };
+ const SPEAKER_COLORS = ['#2563eb', '#db2777', '#059669', '#d97706', '#7c3aed', '#0891b2', '#dc2626', '#4b5563'];
+ // Keyed by the id's number so a speaker keeps its colour when others are merged away
+ function speakerColor(id: string): string {
+   const n = Number(id.replace(/\D/g, '')) || 1;
+   return SPEAKER_COLORS[(n - 1) % SPEAKER_COLORS.length];
  }
- 
- // Friendly mic error mapping
- export type FriendlyMicErrorCode =
-   | 'permission-denied'
-   | 'no-device'
-   | 'hardware-busy'
-   | 'constraints'
-   | 'insecure-context'
-   | 'unsupported'
-   | 'unknown';
- 
- export function friendlyMicError(err: unknown): { code: FriendlyMicErrorCode; message: string } {
-   const name = (err as any)?.name || (err as any)?.code || 'UnknownError';
-   switch (name) {
-     case 'NotAllowedError':
-     case 'SecurityError':
-       return { code: 'permission-denied', message: 'Microphone permission was blocked. Allow mic access and reload.' };
-     case 'NotFoundError':
-     case 'DevicesNotFoundError':
-       return { code: 'no-device', message: 'No microphone found. Plug in or enable a mic and try again.' };
-     case 'NotReadableError':
-     case 'AbortError':
-       return { code: 'hardware-busy', message: 'Microphone is in use by another app. Close calls/recorders and retry.' };
-     case 'OverconstrainedError':
-       return { code: 'constraints', message: 'Requested audio constraints are not supported by your device/browser.' };
-     case 'TypeError':
-       return { code: 'insecure-context', message: 'Use HTTPS or localhost to access the microphone.' };
-     default:
-       return { code: 'unknown', message: 'Could not access the microphone. Check site permissions and try again.' };
-   }
+
+ // Centre a line of the transcript pane in view (the pane is its rows' offsetParent)
+ function scrollPaneTo(pane: HTMLElement | null, lineId: string) {
+   const row = pane?.querySelector<HTMLElement>(`[data-line-id="${lineId}"]`);
+   if (pane && row) pane.scrollTop = row.offsetTop - (pane.clientHeight - row.offsetHeight) / 2;
  }
  
- // ---------- Types for real-time lines ----------
- export type FinalLine = { id: string; text: string; ts: number };
- 
  // ---------- Component ----------
- export default function LiveTranscribe(): JSX.Element {
+ export default function LiveTranscribe(): React.JSX.Element | null {
    const [permission, setPermission] = useState<'idle' | 'prompt' | 'granted' | 'denied'>('idle');
    const [recording, setRecording] = useState(false);
-   const [status, setStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
+   const [status, setStatus] = useState<WsStatus>('disconnected');
+   const [bufferedSec, setBufferedSec] = useState(0);
    const [interim, _setInterim] = useState('');
-   const [finals, setFinals] = useState<string[]>([]);
-   const [lines, setLines] = useState<FinalLine[]>([]);
+   const [lines, setLines] = useState<Segment[]>([]);
+   // The line open in the editor, and undo/redo stacks of applied edits (newest last)
+   const [editing, setEditing] = useState<{ id: string; draft: string } | null>(null);
+   const [history, setHistory] = useState<{ undo: LineEdit[]; redo: LineEdit[] }>({ undo: [], redo: [] });
+   // Search over the lines (auto-scroll holds still while there is a query) and the match on show
+   const [query, setQuery] = useState('');
+   const [matchIndex, setMatchIndex] = useState(0);
+   // Bookmarks and notes, a note being written on selected text, and the side panel's tag filter
+   const [annotations, setAnnotations] = useState<Annotation[]>([]);
+   const [noteDraft, setNoteDraft] = useState<{ lineId: string; atMs: number; quote: string; tags: string; comment: string } | null>(null);
+   const [tagFilter, setTagFilter] = useState('');
+   const [summary, setSummary] = useState<MeetingSummary | null>(null);
+   const [summarizing, setSummarizing] = useState(false);
+   const [summaryError, setSummaryError] = useState<string | null>(null);
    const [language, setLanguage] = useState('en');
-   const [testOutput, setTestOutput] = useState<string[]>([]);
-   const [micError, setMicError] = useState<{ code: FriendlyMicErrorCode; message: string } | null>(null);
+   const [translateTo, setTranslateTo] = useState('');
+   const [cueTrack, setCueTrack] = useState<CueTrack>('original');
+   const [room, setRoom] = useState('');
+   const [roomState, setRoomState] = useState({ paused: false, viewers: 0 });
+   const [relayNotice, setRelayNotice] = useState<string | null>(null);
+   const [upload, setUpload] = useState<UploadProgress | null>(null);
+   const [transport, setTransport] = useState<AudioTransport>('binary');
+   const [micError, setMicError] = useState<CaptureError | null>(null);
    const [autoScroll, setAutoScroll] = useState(true);
-   const [latencyMs, setLatencyMs] = useState<number | null>(null);
+   // Recent ping round trips, oldest first
+   const [rtts, setRtts] = useState<number[]>([]);
+   const [vad, setVad] = useState<VadConfig>(DEFAULT_VAD);
+   const [speaking, setSpeaking] = useState(false);
+   const [speakers, setSpeakers] = useState<Speaker[]>([]);
+   const [speakerMode, setSpeakerMode] = useState<SpeakerMode>('auto');
+   const [currentSpeaker, setCurrentSpeaker] = useState('');
+   const [tracker] = useState(() => new SpeakerTracker());
+   // Glossary as typed, and as last applied (what the relay gets)
+   const [glossaryDraft, setGlossaryDraft] = useState('');
+   const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+   const [redaction, setRedaction] = useState<RedactionConfig>({});
+   // Inputs on offer, the one in use ('' = system default) and its processing
+   const [inputs, setInputs] = useState<{ deviceId: string; label: string }[]>([]);
+   const [inputId, setInputId] = useState('');
+   const [processing, setProcessing] = useState<AudioProcessing>(DEFAULT_PROCESSING);
+   const [inputNotice, setInputNotice] = useState<string | null>(null);
+   const [levelWarning, setLevelWarning] = useState<'clipping' | 'silent' | null>(null);
+   const [capture, setCapture] = useState<CaptureSource>('mic');
+   const [gains, setGains] = useState<Record<CaptureKind, number>>({ mic: 1, tab: 1 });
+   // Transcripts saved in this browser; an interrupted one to offer back, and the one Reset just binned
+   const [localStore, setLocalStore] = useState<LocalTranscriptStore<Segment, Speaker, Annotation> | null>(null);
+   const [localSessions, setLocalSessions] = useState<LocalSessionSummary[]>([]);
+   const [restoreOffer, setRestoreOffer] = useState<LocalSessionSummary | null>(null);
+   const [trashed, setTrashed] = useState<LocalSessionSummary | null>(null);
+   const [localId, setLocalId] = useState<string | null>(null);
    const [mounted, setMounted] = useState(false);
    const [originText, setOriginText] = useState('');
  
-   const wsRef = useRef<WebSocket | null>(null);
+   const relayRef = useRef<RelayClient | null>(null);
    const streamRef = useRef<MediaStream | null>(null);
    const paneRef = useRef<HTMLDivElement | null>(null);
    const rafInterimRef = useRef<number | null>(null);
    const audioCtxRef = useRef<AudioContext | null>(null);
    const workletNodeRef = useRef<AudioWorkletNode | null>(null);
+   // Capture graph: each source → its gain → the worklet (which meters and encodes the mix)
+   const sourcesRef = useRef<Record<CaptureKind, MediaStreamAudioSourceNode | null>>({ mic: null, tab: null });
+   const gainNodesRef = useRef<Record<CaptureKind, GainNode | null>>({ mic: null, tab: null });
+   const tabStreamRef = useRef<MediaStream | null>(null);
+   const levelBarRef = useRef<HTMLDivElement | null>(null);
    const flushTimerRef = useRef<number | null>(null);
-   const lastPingRef = useRef<number | null>(null);
-   const sampleRateRef = useRef<number>(48000);
-
-   // Client-side sample accumulator (24 kHz mono)
-   const pendingSamplesRef = useRef<Float32Array | null>(null);
-   const THRESHOLD_SAMPLES_24K = 2400; // ≈100ms at 24kHz
-  
-   // Accumulate raw mic samples at source rate (e.g., 48kHz)
-   const pendingF32Ref = useRef<Float32Array | null>(null);
    const lastSentAtRef = useRef<number>(0);
+   // Added to relay offsets so the timeline keeps going if a reconnect lands on a fresh relay session
+   const offsetBaseRef = useRef(0);
+   const linesRef = useRef(lines);
+   linesRef.current = lines;
+   const historyRef = useRef(history);
+   historyRef.current = history;
+   const editorRef = useRef<HTMLTextAreaElement | null>(null);
+   const nextLineIdRef = useRef(1);
+   const nextAnnotationIdRef = useRef(1);
+   // Bumped when the transcript is replaced, so a recap still in flight is dropped
+   const summaryRunRef = useRef(0);
+   const addBookmarkRef = useRef(addBookmark);
+   addBookmarkRef.current = addBookmark;
+   // The local session the transcript is saved to; created with the first line
+   const localRef = useRef<{ id: string; name: string } | null>(null);
+   const languageRef = useRef(language);
+   languageRef.current = language;
+   const translateToRef = useRef(translateTo);
+   translateToRef.current = translateTo;
+   const glossaryRef = useRef(glossary);
+   glossaryRef.current = glossary;
+   const redactionRef = useRef(redaction);
+   redactionRef.current = redaction;
+   const inputIdRef = useRef(inputId);
+   inputIdRef.current = inputId;
+   // What was picked in the UI (saved); followed back when it is plugged in again
+   const preferredInputRef = useRef('');
+   const processingRef = useRef(processing);
+   processingRef.current = processing;
+   const captureRef = useRef(capture);
+   captureRef.current = capture;
+   const refreshInputsRef = useRef(refreshInputs);
+   refreshInputsRef.current = refreshInputs;
+   const transportRef = useRef<AudioTransport>(transport);
+   transportRef.current = transport;
+   const vadRef = useRef(vad);
+   vadRef.current = vad;
+   const speakerModeRef = useRef(speakerMode);
+   speakerModeRef.current = speakerMode;
+   const currentSpeakerRef = useRef(currentSpeaker);
+   currentSpeakerRef.current = currentSpeaker;
+   // The upload in flight: cancel() also releases a stream still waiting for the handshake
+   const uploadRef = useRef<{ cancelled: boolean; cancel: () => void } | null>(null);
+   const fileInputRef = useRef<HTMLInputElement | null>(null);
+   // Runs once the worklet confirms its last partial chunk is out (set by stop())
+   const afterDrainRef = useRef<(() => void) | null>(null);
 
-   const WS_URL: string = (() => {
-     const envUrl =
-       (typeof process !== 'undefined' &&
-         (process as any).env &&
-         (process as any).env.NEXT_PUBLIC_WS_URL) ||
-       '';
-     const isHttps = typeof location !== 'undefined' && location.protocol === 'https:';
-
-     if (envUrl) {
-       if (isHttps && envUrl.startsWith('ws://')) {
-         try {
-           const u = new URL(envUrl);
-           return `wss://${u.hostname}${u.port ? `:${u.port}` : ''}${u.pathname || ''}${u.search || ''}`;
-         } catch {
-           return envUrl.replace(/^ws:\/\//, 'wss://');
-         }
-       }
-       return envUrl;
-     }
+   // Typed send; control frames are dropped while the relay is unreachable
+   const sendMessage = (msg: ClientMessage) => relayRef.current?.send(msg);
 
-     if (isHttps) return `wss://${location.hostname}:8787`;
-     return 'ws://localhost:8787';
-   })();
-
-   const CANDIDATE_WS_URLS: string[] = (() => {
-     const isHttps = typeof location !== 'undefined' && location.protocol === 'https:';
-     const proto = isHttps ? 'wss' : 'ws';
-     const host = (typeof location !== 'undefined' && location.hostname) || 'localhost';
-  
-     const urls = new Set<string>([
-       WS_URL,                            // env / resolver
-       `${proto}://${host}:8787`,         // current host
-       `${proto}://127.0.0.1:8787`,       // loopback IPv4
-       `${proto}://localhost:8787`,       // localhost
-     ].filter(Boolean) as string[]);
-  
-     return Array.from(urls);
-   })();
+   // PCM16 @ 24 kHz from the worklet; buffered by the relay client while reconnecting
+   const sendAudio = (pcm: ArrayBuffer) => {
+     relayRef.current?.sendAudio(pcm);
+     lastSentAtRef.current = performance.now();
+   };
 
    const setInterim = (next: string) => {
      if (rafInterimRef.current) cancelAnimationFrame(rafInterimRef.current);
@@ -210,16 +276,88 @@
      });
    };
  
+   // Language/translation/glossary/redaction changes apply to the live relay session right away
+   useEffect(() => {
+     relayRef.current?.reconfigure();
+   }, [language, translateTo, glossary, redaction]);
+
+   // Every change to the lines is saved locally shortly after (finals, edits, speaker names, annotations)
    useEffect(() => {
-     if (!autoScroll || !paneRef.current) return;
+     if (!localStore || !lines.length) return;
+     const timer = window.setTimeout(() => {
+       if (!localRef.current) {
+         localRef.current = { id: newLocalSessionId(), name: localSessionName() };
+         localStore.claim(localRef.current.id);
+         setLocalId(localRef.current.id);
+       }
+       const { id, name } = localRef.current;
+       localStore.save(id, { lines, speakers, annotations }, name)
+         .then(() => localStore.list())
+         .then(setLocalSessions)
+         .catch((err) => console.warn('[client] local save failed', err));
+     }, 300);
+     return () => window.clearTimeout(timer);
+   }, [localStore, lines, speakers, annotations]);
+
+   // Held still while a line is being edited or the transcript searched
+   useEffect(() => {
+     if (!autoScroll || editing || query.trim() || !paneRef.current) return;
      paneRef.current.scrollTop = paneRef.current.scrollHeight;
-   }, [interim, lines, autoScroll]);
+   }, [interim, lines, autoScroll, editing, query]);
+
+   const matches = findMatches(lines, query);
+   const currentMatch = matches.length ? matches[Math.min(matchIndex, matches.length - 1)] : null;
+   const currentMatchLine = currentMatch?.lineId;
+
+   // Bring the match on show into view
+   useEffect(() => {
+     if (currentMatchLine) scrollPaneTo(paneRef.current, currentMatchLine);
+   }, [currentMatchLine, matchIndex]);
+
+   // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z (or Ctrl+Y) and Alt+B outside text fields, which keep their own undo
+   useEffect(() => {
+     const onKey = (e: KeyboardEvent) => {
+       if ((e.target as HTMLElement | null)?.closest?.('input, textarea, select')) return;
+       // By key position: macOS turns Option+B into '∫'
+       if (e.altKey && !e.ctrlKey && !e.metaKey && e.code === 'KeyB') { e.preventDefault(); addBookmarkRef.current(); return; }
+       if (!(e.ctrlKey || e.metaKey)) return;
+       const key = e.key.toLowerCase();
+       if (key === 'z' && !e.shiftKey) { e.preventDefault(); undoEdit(); }
+       else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redoEdit(); }
+     };
+     window.addEventListener('keydown', onKey);
+     return () => window.removeEventListener('keydown', onKey);
+   }, []);
  
    useEffect(() => {
      let cancelled = false;
      
      setMounted(true);
      try { setOriginText(window.location.protocol + '//' + window.location.host); } catch {}
+     try {
+       const saved = window.localStorage.getItem(GLOSSARY_STORAGE_KEY) || '';
+       setGlossaryDraft(saved);
+       setGlossary(parseGlossary(saved));
+     } catch {}
+     try {
+       const mic = JSON.parse(window.localStorage.getItem(MIC_STORAGE_KEY) || 'null');
+       if (mic) {
+         preferredInputRef.current = String(mic.deviceId || '');
+         setInputId(preferredInputRef.current);
+         setProcessing({ ...DEFAULT_PROCESSING, ...mic.processing });
+       }
+     } catch {}
+     LocalTranscriptStore.open<Segment, Speaker, Annotation>().then(async (store) => {
+       if (!store || cancelled) return;
+       await store.emptyTrash(TRASH_RETENTION_MS);
+       const [interrupted] = await store.interrupted();
+       setRestoreOffer(interrupted ?? null);
+       setLocalSessions(await store.list());
+       setLocalStore(store);
+     }).catch((err) => console.warn('[client] local store unavailable', err));
+     const onDeviceChange = () => { refreshInputsRef.current(true); };
+     navigator.mediaDevices?.addEventListener?.('devicechange', onDeviceChange);
+     refreshInputsRef.current();
 
      (async () => {
        try {
@@ -236,11 +374,13 @@
      })();
      return () => {
        cancelled = true;
+       navigator.mediaDevices?.removeEventListener?.('devicechange', onDeviceChange);
        try { if (flushTimerRef.current) window.clearInterval(flushTimerRef.current); } catch {}
        try { workletNodeRef.current?.port.postMessage({ type: 'stop' }); } catch {}
        try { audioCtxRef.current?.close(); } catch {}
-       try { if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) wsRef.current.close(); } catch {}
+       try { relayRef.current?.close(); } catch {}
        try { streamRef.current?.getTracks().forEach((t) => t.stop()); } catch {}
+       try { tabStreamRef.current?.getTracks().forEach((t) => t.stop()); } catch {}
        if (rafInterimRef.current) cancelAnimationFrame(rafInterimRef.current);
      };
    }, []);
@@ -254,13 +394,12 @@
        return null;
      }
      if (!navigator?.mediaDevices?.getUserMedia) {
-       setMicError({ code: 'unsupported', message: 'This browser does not support getUserMedia.' });
+       setMicError({ code: 'unsupported', message: 'This browser does not support getUserMedia.', source: 'mic' });
        setPermission('denied');
        return null;
      }
      try {
-       const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true }, video: false });
-       streamRef.current = stream;
+       const stream = await openInput(inputIdRef.current, processingRef.current);
        setPermission('granted');
        return stream;
      } catch (err) {
@@ -271,84 +410,363 @@
      }
    }
  
-   function connectWS() {
-     setStatus('connecting');
-     let index = 0;
-  
-     const tryNext = () => {
-       if (index >= CANDIDATE_WS_URLS.length) {
-         setStatus('disconnected');
-         console.error('[WS] All candidates failed:', CANDIDATE_WS_URLS);
-         return;
+   // Open an input; while recording, the worklet moves over to it and the session carries on
+   async function openInput(deviceId: string, opts: AudioProcessing): Promise<MediaStream> {
+     let id = deviceId;
+     let stream: MediaStream;
+     try {
+       stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(id, opts), video: false });
+     } catch (err) {
+       // A remembered device that is gone: the default will do
+       if (!id || (err as { name?: string })?.name !== 'OverconstrainedError') throw err;
+       id = '';
+       stream = await navigator.mediaDevices.getUserMedia({ audio: micConstraints(id, opts), video: false });
+     }
+     const previous = streamRef.current;
+     streamRef.current = stream;
+     inputIdRef.current = id;
+     setInputId(id);
+     if (CAPTURE_KINDS[captureRef.current].includes('mic')) plugSource('mic', stream);
+     if (previous && previous !== stream) previous.getTracks().forEach((t) => t.stop());
+     refreshInputs();
+     return stream;
+   }
+
+   // Route a stream into its gain stage, replacing what was there (null unplugs); a no-op until started
+   function plugSource(kind: CaptureKind, stream: MediaStream | null) {
+     const ctx = audioCtxRef.current;
+     const gain = gainNodesRef.current[kind];
+     sourcesRef.current[kind]?.disconnect();
+     sourcesRef.current[kind] = null;
+     if (!ctx || !gain || !stream) return;
+     const source = ctx.createMediaStreamSource(stream);
+     source.connect(gain);
+     sourcesRef.current[kind] = source;
+   }
+
+   // Tab or screen audio via the share picker; Chrome only offers audio with video, which we ignore
+   async function requestTabAudio(): Promise<MediaStream | null> {
+     setMicError(null);
+     if (!navigator?.mediaDevices?.getDisplayMedia) {
+       setMicError(friendlyMicError({ name: isSecureRuntime() ? 'NotSupportedError' : 'TypeError' }, 'tab'));
+       return null;
+     }
+     try {
+       const stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+       const [track] = stream.getAudioTracks();
+       if (!track) {
+         stream.getTracks().forEach((t) => t.stop());
+         setMicError(friendlyMicError({ name: 'NoAudioTrackError' }, 'tab'));
+         return null;
        }
-  
-       const url = CANDIDATE_WS_URLS[index++];
-       const ws = new WebSocket(url);
-       wsRef.current = ws;
-  
-       ws.onopen = () => {
-         console.info('[WS] connected:', url);
-         setStatus('connected');
-         ws.send(JSON.stringify({ type: 'config', language }));
-         lastPingRef.current = performance.now();
-         ws.send(JSON.stringify({ type: 'ping', t: lastPingRef.current }));
-       };
-  
-       ws.onmessage = (ev: MessageEvent) => {
-         try {
-           const msg = JSON.parse(ev.data as string);
-           console.log('[client] ws msg:', msg);
-
-           if (msg.type === 'transcript') {
-             if (msg.channel === 'interim') {
-               console.log('[client] INTERIM: ', msg.text);
-               setInterim(String(msg.text || ''));
-             }
-             if (msg.channel === 'final') {
-               console.log('[client] FINAL:', msg.text);
-               const text = String(msg.text || '').trim();
-               if (text) {
-                 setFinals((prev) => [...prev, text]);
-                 setLines((prev) => [...prev, {id: `${Date.now()}-${prev.length + 1}`, text, ts: Date.now() }]);
-               }
-               _setInterim('');
-             }
-             return;
-           }
-
-           if (msg.type === 'status') {
-             console.log('[client] WS status:', msg.value);
-             setStatus(String(msg.value || 'connected') as any);
-             return;
-           }
-         } catch {
-           console.log('[client] ws raw:', ev.data);
-           setInterim(String(ev.data || ''));
+       track.addEventListener('ended', () => endTabAudio(stream));
+       tabStreamRef.current = stream;
+       if (CAPTURE_KINDS[captureRef.current].includes('tab')) plugSource('tab', stream);
+       return stream;
+     } catch (err) {
+       setMicError(friendlyMicError(err, 'tab'));
+       return null;
+     }
+   }
+
+   // Sharing stopped (from the browser's bar, or by us): drop it from the mix; stop if it was all we had
+   function endTabAudio(stream: MediaStream) {
+     stream.getTracks().forEach((t) => t.stop());
+     if (tabStreamRef.current !== stream) return;
+     tabStreamRef.current = null;
+     plugSource('tab', null);
+     if (captureRef.current === 'tab' && workletNodeRef.current) {
+       setInputNotice('Tab audio sharing ended.');
+       stop();
+     }
+   }
+
+   // Switching mid-session swaps sources in the graph; the relay session carries on
+   async function changeCapture(next: CaptureSource) {
+     captureRef.current = next;
+     setCapture(next);
+     setInputNotice(null);
+     const kinds = CAPTURE_KINDS[next];
+     if (!kinds.includes('tab') && tabStreamRef.current) endTabAudio(tabStreamRef.current);
+     if (!kinds.includes('mic')) plugSource('mic', null);
+     if (!workletNodeRef.current) return;
+     // Ask for the tab first: the share picker needs the click that got us here
+     if (kinds.includes('tab') && !tabStreamRef.current) await requestTabAudio();
+     if (kinds.includes('mic')) {
+       if (streamRef.current) plugSource('mic', streamRef.current);
+       else await requestMicPermission();
+     }
+   }
+
+   function changeGain(kind: CaptureKind, value: number) {
+     setGains((prev) => ({ ...prev, [kind]: value }));
+     const gain = gainNodesRef.current[kind];
+     if (gain) gain.gain.setTargetAtTime(value, gain.context.currentTime, 0.02);
+   }
+
+   // Picked in the UI: saved, and applied right away if the mic is open
+   async function changeInput(deviceId: string, opts: AudioProcessing) {
+     preferredInputRef.current = deviceId;
+     processingRef.current = opts;
+     setProcessing(opts);
+     setInputNotice(null);
+     try { window.localStorage.setItem(MIC_STORAGE_KEY, JSON.stringify({ deviceId, processing: opts })); } catch {}
+     if (!streamRef.current) {
+       inputIdRef.current = deviceId;
+       setInputId(deviceId);
+       return;
+     }
+     setMicError(null);
+     try { await openInput(deviceId, opts); } catch (err) { setMicError(friendlyMicError(err)); }
+   }
+
+   // Inputs as the browser lists them (ids and labels only show once mic access is granted).
+   // On a devicechange, follow the picked mic away when it is unplugged and back when it returns.
+   async function refreshInputs(follow = false) {
+     let found: MediaDeviceInfo[];
+     try {
+       found = (await navigator.mediaDevices.enumerateDevices())
+         .filter((d) => d.kind === 'audioinput' && d.deviceId && d.deviceId !== 'default' && d.deviceId !== 'communications');
+     } catch {
+       return;
+     }
+     setInputs(found.map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` })));
+     if (!follow || !found.length) return;
+     const preferred = preferredInputRef.current;
+     const next = found.some((d) => d.deviceId === preferred) ? preferred : '';
+     if (next === inputIdRef.current) return;
+     setInputNotice(next ? 'Your microphone is back; switched to it.' : 'The selected microphone was disconnected; using the system default.');
+     if (!streamRef.current) {
+       inputIdRef.current = next;
+       setInputId(next);
+       return;
+     }
+     try { await openInput(next, processingRef.current); } catch (err) { setMicError(friendlyMicError(err)); }
+   }
+
+   // ~20 times a second: the bar is styled directly, state only changes with the warning
+   function showLevel(level: LevelReading) {
+     const bar = levelBarRef.current;
+     if (bar) {
+       bar.style.width = `${levelPercent(level.rmsDb)}%`;
+       bar.style.background = level.clipping ? '#dc2626' : level.peakDb > -6 ? '#d97706' : '#16a34a';
+     }
+     setLevelWarning(level.clipping ? 'clipping' : level.silent ? 'silent' : null);
+   }
+
+   function handleRelayMessage(msg: ServerMessage) {
+     console.log('[client] ws msg:', msg);
+
+     switch (msg.type) {
+       case 'ready':
+         if (!msg.resumed) {
+           const prev = linesRef.current;
+           offsetBaseRef.current = prev.length ? prev[prev.length - 1].endMs : 0;
          }
-       };
-  
-       ws.onclose = (ev) => {
-         console.warn('[WS] closed', url, ev.code, ev.reason);
-         if (status !== 'connected') tryNext();
-         else setStatus('disconnected');
-       };
-       ws.onerror = (err) => {
-         console.error('[WS] error', url, err);
-         tryNext();
-       };
-     };
-  
-     tryNext();
+         setRoom(msg.room);
+         return;
+       case 'room.state':
+         setRoomState({ paused: msg.paused, viewers: msg.viewers });
+         return;
+       case 'room.snapshot':
+       case 'room.cleared':
+         return;  // Viewer-only frames
+       case 'transcript':
+         applyTranscript(msg, offsetBaseRef.current);
+         return;
+       case 'status':
+         console.log('[client] WS status:', msg.value);
+         setStatus(msg.value);
+         return;
+       case 'pong':
+         return;
+       case 'error':
+         console.error(`[client] relay reported ${msg.code}:`, msg.message);
+         return;
+     }
+   }
+
+   // Live and uploaded transcripts land in the same list; `source` keeps their seqs apart
+   function applyTranscript(msg: TranscriptMessage, base: number, source?: string) {
+     if (msg.channel === 'interim') {
+       setInterim(msg.text);
+     } else if (msg.channel === 'translation') {
+       // Attach to the newest line with that seq (seq restarts on a fresh relay session)
+       setLines((prev) => {
+         const i = prev.findLastIndex((ln) => ln.seq === msg.seq && ln.source === source);
+         if (i < 0) return prev;
+         const next = [...prev];
+         next[i] = { ...next[i], translation: msg.text };
+         return next;
+       });
+     } else {
+       const text = msg.text.trim();
+       if (text) {
+         const speaker = msg.speaker ? tracker.resolve(msg.speaker) : undefined;
+         if (speaker) addSpeaker(speaker);
+         // Appended only: a line open in the editor keeps its place and its draft
+         setLines((prev) => [...prev, {
+           id: `${Date.now()}-${nextLineIdRef.current++}`,
+           seq: msg.seq ?? 0,
+           commitId: msg.commitId ?? 0,
+           startMs: base + (msg.startMs ?? 0),
+           endMs: base + (msg.endMs ?? 0),
+           text,
+           speaker,
+           redactions: msg.redactions?.length ? msg.redactions : undefined,
+           latency: source ? undefined : msg.latency,
+           source,
+           receivedAt: Date.now(),
+         }]);
+       }
+       _setInterim('');
+     }
+   }
+
+   // Label sent with a flush: the clustered voice, whoever was picked by hand, or none
+   function labelFor(voice: Voiceprint | null): string | undefined {
+     if (speakerModeRef.current === 'manual') return currentSpeakerRef.current || undefined;
+     if (speakerModeRef.current === 'auto') return tracker.assign(voice) ?? undefined;
+     return undefined;
+   }
+
+   function addSpeaker(id: string) {
+     setSpeakers((prev) => (prev.some((sp) => sp.id === id) ? prev : [...prev, { id, name: defaultSpeakerName(id) }]));
+   }
+
+   function newSpeaker(): string {
+     const id = tracker.create();
+     addSpeaker(id);
+     return id;
+   }
+
+   function renameSpeaker(id: string, name: string) {
+     setSpeakers((prev) => prev.map((sp) => (sp.id === id ? { ...sp, name } : sp)));
+   }
+
+   // Two labels were the same person: relabel the lines and teach the tracker
+   function mergeSpeaker(from: string, into: string) {
+     tracker.merge(from, into);
+     setSpeakers((prev) => prev.filter((sp) => sp.id !== from));
+     setLines((prev) => prev.map((ln) => (ln.speaker === from ? { ...ln, speaker: into } : ln)));
+     if (currentSpeakerRef.current === from) setCurrentSpeaker(into);
+   }
+
+   function reassignLine(lineId: string, choice: string) {
+     const seg = linesRef.current.find((ln) => ln.id === lineId);
+     if (!seg) return;
+     const speaker = choice === NEW_SPEAKER ? newSpeaker() : choice || undefined;
+     applyEdit({ before: [seg], after: [{ ...seg, speaker }] });
+   }
+
+   // ---------- Editing ----------
+   function applyEdit(edit: LineEdit) {
+     setLines((prev) => applyLineEdit(prev, edit));
+     setHistory((h) => ({ undo: [...h.undo, edit].slice(-MAX_UNDO), redo: [] }));
+   }
+
+   function undoEdit() {
+     const edit = historyRef.current.undo.at(-1);
+     if (!edit) return;
+     setEditing(null);
+     setLines((prev) => applyLineEdit(prev, invertLineEdit(edit)));
+     setHistory((h) => ({ undo: h.undo.slice(0, -1), redo: [...h.redo, edit] }));
+   }
+
+   function redoEdit() {
+     const edit = historyRef.current.redo.at(-1);
+     if (!edit) return;
+     setEditing(null);
+     setLines((prev) => applyLineEdit(prev, edit));
+     setHistory((h) => ({ undo: [...h.undo, edit], redo: h.redo.slice(0, -1) }));
+   }
+
+   function beginEdit(seg: Segment) {
+     setEditing({ id: seg.id, draft: seg.text });
+   }
+
+   // Saving an empty draft is treated as cancel: lines are split/merged, never deleted
+   function saveEdit() {
+     const seg = linesRef.current.find((ln) => ln.id === editing?.id);
+     const text = editing?.draft.replace(/\s+/g, ' ').trim();
+     setEditing(null);
+     if (!seg || !text || text === seg.text) return;
+     applyEdit({ before: [seg], after: [editSegment(seg, text)] });
+   }
+
+   function splitAtCursor() {
+     const seg = linesRef.current.find((ln) => ln.id === editing?.id);
+     if (!seg || !editing) return;
+     const parts = splitSegment(editSegment(seg, editing.draft), editorRef.current?.selectionStart ?? 0);
+     if (!parts) return;
+     setEditing(null);
+     applyEdit({ before: [seg], after: parts });
+   }
+
+   function mergeWithNext() {
+     const all = linesRef.current;
+     const i = all.findIndex((ln) => ln.id === editing?.id);
+     if (i < 0 || i + 1 >= all.length || !editing) return;
+     const draft = editing.draft.trim() || all[i].text;
+     setEditing(null);
+     applyEdit({ before: [all[i], all[i + 1]], after: [mergeSegments(editSegment(all[i], draft), all[i + 1])] });
+   }
+
+   // The relay refused us or a quota ran out: stop capturing and say why
+   function handleRelayClosed(code: number) {
+     setRelayNotice(relayCloseReason(code));
+     if (workletNodeRef.current) stop();
+   }
+
+   const relayConfig = () => ({
+     language: languageRef.current,
+     transport: transportRef.current,
+     translateTo: translateToRef.current || undefined,
+     glossary: glossaryRef.current.length ? glossaryRef.current : undefined,
+     redaction: redactionRef.current,
+   });
+
+   function applyGlossaryDraft() {
+     setGlossary(parseGlossary(glossaryDraft));
+     try { window.localStorage.setItem(GLOSSARY_STORAGE_KEY, glossaryDraft); } catch {}
+   }
+   const frameAudio = (pcm: ArrayBuffer) => transportRef.current === 'binary'
+     ? pcm
+     : encodeMessage({ type: 'client.audio.append', audio: base64FromPCM16(new Int16Array(pcm)) });
+
+   // One RelayClient per page; it reconnects (and resumes the relay session) on its own
+   function connectWS() {
+     if (!relayRef.current) {
+       relayRef.current = new RelayClient({
+         urls: candidateWsUrls(),
+         authorize: fetchRelayToken,
+         config: relayConfig,
+         frameAudio,
+         onMessage: handleRelayMessage,
+         onStatus: setStatus,
+         onBuffered: setBufferedSec,
+         onLatency: (ms) => setRtts((prev) => [...prev.slice(1 - RTT_WINDOW), ms]),
+         onClosed: handleRelayClosed,
+       });
+     }
+     relayRef.current.connect();
    }
  
    async function start() {
-     if (permission !== 'granted' || !streamRef.current) {
+     const kinds = CAPTURE_KINDS[captureRef.current];
+     // The share picker first, while the click still counts as a user gesture
+     if (kinds.includes('tab') && !tabStreamRef.current) {
+       const stream = await requestTabAudio();
+       if (!stream) return;
+     }
+     if (kinds.includes('mic') && (permission !== 'granted' || !streamRef.current)) {
        const stream = await requestMicPermission();
        if (!stream) return;
      }
  
-     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) connectWS();
-     if (wsRef.current && wsRef.current.readyState !== WebSocket.OPEN) await sleep(150);
+     // Audio captured before the handshake completes is buffered and replayed
+     setRelayNotice(null);
+     connectWS();
  
      if (!audioCtxRef.current) {
        audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -358,156 +776,396 @@
      // make sure the context is running (some browsers start in "suspended")
      await ctx.resume();
 
-     sampleRateRef.current = ctx.sampleRate || 48000;
- 
-     const workletCode = `
-       class PCMProcessor extends AudioWorkletProcessor {
-         constructor() { super(); this.port.onmessage = (e)=>{ if(e.data.type==='stop'){ this.stopped=true; } }; }
-         process(inputs) {
-           if (this.stopped) return false;
-           const input = inputs[0];
-           if (!input || input.length === 0) return true;
-           const ch0 = input[0];
-           this.port.postMessage({ type: 'samples', buffer: ch0 });
-           return true;
-         }
-       }
-       registerProcessor('pcm-processor', PCMProcessor);
-     `;
+     // The worklet resamples to 24 kHz mono and hands back ~100ms PCM16 chunks
      if (!workletNodeRef.current) {
-       const blob = new Blob([workletCode], { type: 'application/javascript' });
+       const blob = new Blob([pcmWorkletSource()], { type: 'application/javascript' });
        const url = URL.createObjectURL(blob);
        await ctx.audioWorklet.addModule(url);
-       const node = new AudioWorkletNode(ctx, 'pcm-processor');
+       URL.revokeObjectURL(url);
+       const node = new AudioWorkletNode(ctx, PCM_PROCESSOR, {
+         processorOptions: { targetRate: AUDIO_SAMPLE_RATE, chunkMs: 100, vad: vadRef.current },
+       });
        workletNodeRef.current = node;
-       node.port.onmessage = (e: MessageEvent) => {
-         if (e.data?.type !== 'samples') return;
-         const f32: Float32Array = e.data.buffer;
-         
-         // Accumulate at source rate for better chunk size
-         const prev = pendingF32Ref.current;
-         if (prev && prev.length) {
-           const merged = new Float32Array(prev.length + f32.length);
-           merged.set(prev, 0);
-           merged.set(f32, prev.length);
-           pendingF32Ref.current = merged;
-         } else {
-           pendingF32Ref.current = f32.slice();
+       node.port.onmessage = (e: MessageEvent<WorkletEvent>) => {
+         if (e.data.type === 'chunk') {
+           sendAudio(e.data.pcm);
+           return;
          }
-
-         // Send when we have ~200ms worth of samples at the source rate
-         const MIN_CHUNK_SAMPLES = Math.round((sampleRateRef.current || 48000) * 0.2); // ~200ms
-         if ((pendingF32Ref.current?.length || 0) >= MIN_CHUNK_SAMPLES) {
-           const chunk = pendingF32Ref.current!;
-           pendingF32Ref.current = null;
-
-           // Convert directly at source rate (no downsample) -> PCM16
-           const i16 = floatToPCM16(chunk);
-           const b64 = base64FromPCM16(i16);
-           
-           console.log('[client] sending chunk b64 len =', b64.length);
-           
-           wsRef.current?.send(JSON.stringify({ type: 'client.audio.append', audio: b64 }));
-           lastSentAtRef.current = performance.now();
+         if (e.data.type === 'level') {
+           showLevel(e.data);
+           return;
+         }
+         // VAD: account for the silence we never sent, then commit at each pause
+         if (e.data.type === 'speech-start') {
+           if (e.data.skipped) relayRef.current?.skip(e.data.skipped);
+           setSpeaking(true);
+           return;
+         }
+         if (e.data.type === 'speech-end') {
+           relayRef.current?.flush(labelFor(e.data.voice));
+           if (e.data.reason === 'pause') setSpeaking(false);
+           return;
+         }
+         if (e.data.type === 'drained') {
+           relayRef.current?.flush(labelFor(e.data.voice));
+           const after = afterDrainRef.current;
+           afterDrainRef.current = null;
+           after?.();
          }
        };
-       const source = ctx.createMediaStreamSource(streamRef.current as MediaStream);
-       source.connect(node);
+       for (const kind of ['mic', 'tab'] as const) {
+         const gain = ctx.createGain();
+         gain.gain.value = gains[kind];
+         gain.connect(node);
+         gainNodesRef.current[kind] = gain;
+       }
+       if (kinds.includes('mic')) plugSource('mic', streamRef.current);
+       if (kinds.includes('tab')) plugSource('tab', tabStreamRef.current);
        node.connect(ctx.destination);
      }
-     
-     const drainPending = () => {
-       const buf = pendingF32Ref.current;
-       if (buf && buf.length) {
-         pendingF32Ref.current = null;
-         const i16 = floatToPCM16(buf);
-         const b64 = base64FromPCM16(i16);
-         wsRef.current?.send(JSON.stringify({ type: 'client.audio.append', audio: b64 }));
-         lastSentAtRef.current = performance.now();
-       }
-     };
 
-     // Live flush every ~1.2s so you get interim/final text while speaking
+     if (!vadRef.current.enabled) startFlushTimer();
+     setRecording(true);
+   }
+
+   // Without VAD: flush every ~1.2s so you get interim/final text while speaking.
+   // The worklet pushes its partial chunk first, then `drained` triggers the commit.
+   function startFlushTimer() {
      if (flushTimerRef.current) window.clearInterval(flushTimerRef.current);
      flushTimerRef.current = window.setInterval(() => {
-       try { 
-         drainPending(); // Push any leftover audio before committing
-         
-         console.log('[client] FLUSH tick');
-         
-         wsRef.current?.send(JSON.stringify({ type: 'client.flush' })); 
-        } catch {}
+       try { workletNodeRef.current?.port.postMessage({ type: 'drain' }); } catch {}
      }, 1200);
- 
-     setRecording(true);
+   }
+
+   // Tunables apply live; turning VAD off falls back to the fixed flush timer
+   function updateVad(patch: Partial<VadConfig>) {
+     const next = { ...vadRef.current, ...patch };
+     setVad(next);
+     vadRef.current = next;
+     const node = workletNodeRef.current;
+     if (!node) return;
+     try { node.port.postMessage({ type: 'vad', config: next }); } catch {}
+     if (next.enabled) {
+       if (flushTimerRef.current) window.clearInterval(flushTimerRef.current);
+       flushTimerRef.current = null;
+     } else {
+       setSpeaking(false);
+       if (!flushTimerRef.current) startFlushTimer();
+     }
    }
  
    function stop() {
-     pendingSamplesRef.current = null;
      try { if (flushTimerRef.current) window.clearInterval(flushTimerRef.current); } catch {}
      flushTimerRef.current = null;
-     try { workletNodeRef.current?.port.postMessage({ type: 'stop' }); } catch {}
-     try { audioCtxRef.current?.close(); } catch {}
+     const node = workletNodeRef.current;
+     const ctx = audioCtxRef.current;
      workletNodeRef.current = null;
      audioCtxRef.current = null;
+     sourcesRef.current = { mic: null, tab: null };
+     gainNodesRef.current = { mic: null, tab: null };
+     // The share ends with the recording; the mic stays open for the next start
+     const tab = tabStreamRef.current;
+     tabStreamRef.current = null;
+     tab?.getTracks().forEach((t) => t.stop());
      setRecording(false);
+     setSpeaking(false);
+     setLevelWarning(null);
      _setInterim('');
 
+     // Final drain (incl. resampler tail) so the last words are committed, then tear down
+     const teardown = () => {
+       try { node?.port.postMessage({ type: 'stop' }); } catch {}
+       try { ctx?.close(); } catch {}
+     };
+     if (!node) return teardown();
+     afterDrainRef.current = teardown;
+     try { node.port.postMessage({ type: 'drain', final: true }); } catch { teardown(); }
+   }
+ 
+   // Upload: decode, plan like live capture would send it, then stream it faster than real
+   // time on a relay session of its own, so offsets are offsets into the file
+   async function uploadFile(file: File) {
+     setUpload({ name: file.name, phase: 'decoding', progress: 0 });
+     let samples: Float32Array;
      try {
-       // Final drain of pending audio so commit isn't empty
-       const buf = pendingF32Ref.current;
-       if (buf && buf.length) {
-         pendingF32Ref.current = null;
-         const i16 = floatToPCM16(buf);
-         const b64 = base64FromPCM16(i16);
-         wsRef.current?.send(JSON.stringify({ type: 'client.audio.append', audio: b64 }));
+       const ctx = new AudioContext();
+       const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+       void ctx.close();
+       const channels = Array.from({ length: decoded.numberOfChannels }, (_, i) => decoded.getChannelData(i));
+       samples = downsampleTo24kHz(downmix(channels), decoded.sampleRate);
+     } catch (err) {
+       console.error('[client] could not decode', file.name, err);
+       setRelayNotice(`Could not decode "${file.name}". Try WAV, MP3 or WebM audio.`);
+       setUpload(null);
+       return;
+     }
+     const ops = planUpload(samples, vadRef.current);
+
+     let lastActivity = performance.now();
+     let streamed = false;
+     let droppedSamples = 0;
+     let onReady: () => void = () => {};
+     const ready = new Promise<void>((resolve) => { onReady = resolve; });
+     const job = { cancelled: false, cancel: () => { job.cancelled = true; onReady(); } };
+     uploadRef.current = job;
+     const relay = new RelayClient({
+       urls: candidateWsUrls(),
+       authorize: fetchRelayToken,
+       config: relayConfig,
+       frameAudio,
+       onDropped: (n) => { droppedSamples += n; },
+       onMessage: (msg) => {
+         if (msg.type === 'ready') onReady();
+         if (msg.type === 'error') console.error(`[client] relay reported ${msg.code} (upload):`, msg.message);
+         if (msg.type !== 'transcript') return;
+         lastActivity = performance.now();
+         applyTranscript(msg, 0, file.name);
+         // A commit made while the provider was busy rides along with the next one; once
+         // everything is sent there is no next one, so ask again after every final
+         if (streamed && msg.channel === 'final') relay.flush();
+       },
+       onStatus: () => {},
+       onClosed: (code) => {
+         job.cancel();
+         setRelayNotice(relayCloseReason(code));
+       },
+     });
+     relay.connect();
+     const readyTimer = setTimeout(() => {
+       if (job.cancelled) return;
+       console.error('[client] relay never became ready for upload', file.name);
+       setRelayNotice(`The relay did not answer, so "${file.name}" was not transcribed.`);
+       job.cancel();
+     }, UPLOAD_READY_MS);
+     await ready;
+     clearTimeout(readyTimer);
+
+     setUpload({ name: file.name, phase: 'streaming', progress: 0 });
+     let t0 = performance.now();
+     for (const op of ops) {
+       // While the relay is away, hold the file instead of racing it into the reconnect buffer
+       while (!job.cancelled && !relay.connected) {
+         const pausedAt = performance.now();
+         await new Promise((r) => setTimeout(r, 250));
+         t0 += performance.now() - pausedAt;
        }
-     } catch {}
-     // Final flush so last chunk is transcribed
-     try { wsRef.current?.send(JSON.stringify({ type: 'client.flush' })); } catch {}
+       if (job.cancelled) break;
+       // Pace: keep the stream at most UPLOAD_SPEED× ahead of the wall clock
+       const dueMs = (op.atSample / AUDIO_SAMPLE_RATE) * 1000 / UPLOAD_SPEED;
+       const wait = t0 + dueMs - performance.now();
+       if (wait > 0) await new Promise((r) => setTimeout(r, wait));
+       if (op.kind === 'audio') relay.sendAudio(op.pcm);
+       else if (op.kind === 'skip') relay.skip(op.samples);
+       else relay.flush(labelFor(op.voice));
+       setUpload({ name: file.name, phase: 'streaming', progress: samples.length ? op.atSample / samples.length : 1 });
+     }
+
+     streamed = true;
+     lastActivity = performance.now();
+     setUpload({ name: file.name, phase: 'finishing', progress: 1 });
+     while (!job.cancelled && performance.now() - lastActivity < UPLOAD_SETTLE_MS) {
+       await new Promise((r) => setTimeout(r, 250));
+     }
+     relay.close();
+     if (droppedSamples) {
+       const sec = Math.ceil(droppedSamples / AUDIO_SAMPLE_RATE);
+       setRelayNotice(`About ${sec} s of "${file.name}" were lost while reconnecting; that part of the transcript is missing.`);
+     }
+     if (uploadRef.current === job) uploadRef.current = null;
+     setUpload(null);
+     _setInterim('');
    }
- 
+
+   function addAnnotation(a: Omit<Annotation, 'id' | 'createdAt'>) {
+     const id = `a${Date.now().toString(36)}-${nextAnnotationIdRef.current++}`;
+     setAnnotations((prev) => [...prev, { ...a, id, createdAt: Date.now() }]);
+   }
+
+   function updateAnnotation(id: string, patch: Partial<Annotation>) {
+     setAnnotations((prev) => prev.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+   }
+
+   function removeAnnotation(id: string) {
+     setAnnotations((prev) => prev.filter((a) => a.id !== id));
+   }
+
+   // Alt+B: mark where the transcript is now (the end of the latest line)
+   function addBookmark() {
+     const last = linesRef.current[linesRef.current.length - 1];
+     addAnnotation({ kind: 'bookmark', lineId: last?.id, atMs: last?.endMs ?? 0, tags: [] });
+   }
+
+   // Text selected in the pane opens a note on the line the selection starts in
+   function captureSelection() {
+     const selection = window.getSelection();
+     const quote = selection?.toString().replace(/\s+/g, ' ').trim();
+     const node = selection?.anchorNode;
+     const row = (node instanceof Element ? node : node?.parentElement)?.closest<HTMLElement>('[data-line-id]');
+     const ln = quote && row && paneRef.current?.contains(row) ? linesRef.current.find((l) => l.id === row.dataset.lineId) : undefined;
+     if (quote && ln) setNoteDraft({ lineId: ln.id, atMs: ln.startMs, quote, tags: '', comment: '' });
+   }
+
+   function saveNote() {
+     if (!noteDraft) return;
+     const { lineId, atMs, quote, tags, comment } = noteDraft;
+     addAnnotation({ kind: 'note', lineId, atMs, quote, comment: comment.trim() || undefined, tags: parseTags(tags) });
+     setNoteDraft(null);
+     window.getSelection()?.removeAllRanges();
+   }
+
+   // Auto-scroll goes off, or the next line would scroll the moment away again
+   function jumpToAnnotation(a: Annotation) {
+     const ln = annotatedLine(linesRef.current, a);
+     if (!ln) return;
+     setAutoScroll(false);
+     scrollPaneTo(paneRef.current, ln.id);
+   }
+
+   function stepMatch(delta: number) {
+     if (!matches.length) return;
+     const at = Math.min(matchIndex, matches.length - 1);
+     setMatchIndex((at + delta + matches.length) % matches.length);
+   }
+
+   // A stored transcript replaces the page's; the page's own stays in the list (closed)
+   async function openLocal(summary: LocalSessionSummary) {
+     if (!localStore || recording) return;
+     try {
+       const data = await localStore.load(summary.id);
+       if (!data) return;
+       const current = localRef.current ?? { id: newLocalSessionId(), name: localSessionName() };
+       if (current.id !== summary.id) {
+         if (linesRef.current.length) await localStore.save(current.id, { lines: linesRef.current, speakers, annotations }, current.name);
+         await localStore.close(current.id);
+       }
+       await localStore.activate(summary.id);
+       localRef.current = { id: summary.id, name: summary.name };
+       setLocalId(summary.id);
+       setLines(data.lines);
+       setSpeakers(data.speakers);
+       setAnnotations(data.annotations ?? []);
+       setNoteDraft(null);
+       clearSummary();
+       tracker.reset(data.speakers.map((sp) => sp.id));
+       setCurrentSpeaker('');
+       setEditing(null);
+       setHistory({ undo: [], redo: [] });
+       _setInterim('');
+       setRestoreOffer(null);
+       setTrashed(null);
+       setLocalSessions(await localStore.list());
+     } catch (err) {
+       console.warn('[client] could not open the saved transcript', err);
+     }
+   }
+
+   // Local session actions from the panel; the list is re-read after each
+   function updateLocal(action: (store: LocalTranscriptStore<Segment, Speaker, Annotation>) => Promise<void>) {
+     if (!localStore) return;
+     action(localStore)
+       .then(() => localStore.list())
+       .then(setLocalSessions)
+       .catch((err) => console.warn('[client] local store update failed', err));
+   }
+
+   function dismissRestore() {
+     const offer = restoreOffer;
+     setRestoreOffer(null);
+     if (offer) updateLocal((store) => store.close(offer.id));
+   }
+
+   function cancelUpload() {
+     uploadRef.current?.cancel();
+   }
+
+   function clearSummary() {
+     summaryRunRef.current++;
+     setSummary(null);
+     setSummaryError(null);
+     setSummarizing(false);
+   }
+
+   // Reset wipes the room too, so viewers start over with us. The local copy goes to the trash.
    function resetTranscript() {
-     setFinals([]);
+     // Lines too new to have been saved yet still get a session of their own
+     const local = localRef.current ?? { id: newLocalSessionId(), name: localSessionName() };
+     localRef.current = null;
+     setLocalId(null);
+     if (localStore && linesRef.current.length) {
+       localStore.save(local.id, { lines: linesRef.current, speakers, annotations }, local.name)
+         .then(() => localStore.trash(local.id))
+         .then(() => localStore.list())
+         .then((all) => {
+           setLocalSessions(all);
+           setTrashed(all.find((s) => s.id === local.id) ?? null);
+         })
+         .catch((err) => console.warn('[client] could not move the transcript to the trash', err));
+     }
      setLines([]);
+     setEditing(null);
+     setHistory({ undo: [], redo: [] });
+     setAnnotations([]);
+     setNoteDraft(null);
+     clearSummary();
+     setQuery('');
+     tracker.reset();
+     setSpeakers([]);
+     setCurrentSpeaker('');
      _setInterim('');
+     sendMessage({ type: 'room.control', action: 'clear' });
+   }
+
+   function copyViewerLink() {
+     const url = `${window.location.origin}/view/${room}`;
+     navigator.clipboard?.writeText(url).catch(() => {});
    }
  
-   const fullText = composeTranscript(finals, interim);
- 
-   // ---------- Minimal test harness (runs in browser) ----------
-   function runTests() {
-     const out: string[] = [];
-     function assertEq<T>(name: string, actual: T, expected: T) {
-       const pass = JSON.stringify(actual) === JSON.stringify(expected);
-       out.push(`${pass ? '✅' : '❌'} ${name} :: ${JSON.stringify(actual)} === ${JSON.stringify(expected)}`);
+   // Parallel column while translating, or as long as translated lines are on screen
+   const showTranslation = !!translateTo || lines.some((ln) => ln.translation);
+   const showSpeakers = speakerMode !== 'off' || speakers.length > 0;
+   const finals = lines.map((ln) => ln.text);
+   const matchesByLine = new Map<string, SearchMatch[]>();
+   for (const m of matches) matchesByLine.set(m.lineId, [...(matchesByLine.get(m.lineId) || []), m]);
+   const annotatedIds = new Set(annotations.map((a) => annotatedLine(lines, a)?.id));
+   const shownAnnotations = sortAnnotations(annotations).filter((a) => !tagFilter || a.tags.includes(tagFilter));
+
+   const names = speakers.length ? Object.fromEntries(speakers.map((sp) => [sp.id, sp.name.trim() || defaultSpeakerName(sp.id)])) : undefined;
+
+   function exportAs(format: ExportFormat) {
+     const stamp = Date.now();
+     const meta: ExportMeta = { title: 'BeyondConversation transcript', language, translateTo: translateTo || undefined, speakers: names, annotations: annotations.length ? annotations : undefined, summary: summary ?? undefined, exportedAt: new Date(stamp).toISOString() };
+     switch (format) {
+       case 'txt': return downloadText(`transcript-${stamp}.txt`, [composeTranscript([toPlainText(lines, names)], interim), annotationsText(annotations)].filter(Boolean).join('\n\n'));
+       case 'srt': return downloadText(`transcript-${stamp}.srt`, toSRT(lines, cueTrack, names), 'application/x-subrip;charset=utf-8');
+       case 'vtt': return downloadText(`transcript-${stamp}.vtt`, toWebVTT(lines, cueTrack, names), 'text/vtt;charset=utf-8');
+       case 'json': return downloadText(`transcript-${stamp}.json`, toTranscriptJSON(lines, meta), 'application/json;charset=utf-8');
+       case 'md': return downloadText(`transcript-${stamp}.md`, toMarkdown(lines, meta), 'text/markdown;charset=utf-8');
+     }
+   }
+
+   // Recap of the finished transcript (summary, decisions, action items) from the relay's provider
+   async function summarize() {
+     const run = ++summaryRunRef.current;
+     setSummarizing(true);
+     setSummaryError(null);
+     try {
+       const result = await requestSummary({ transcript: summaryTranscript(lines, names), language });
+       if (run === summaryRunRef.current) setSummary(result);
+     } catch (err) {
+       console.warn('[client] summary failed', err);
+       if (run === summaryRunRef.current) setSummaryError(err instanceof Error ? err.message : String(err));
+     } finally {
+       if (run === summaryRunRef.current) setSummarizing(false);
      }
- 
-     // Compose tests
-     assertEq('compose (finals only)', composeTranscript(['hello', 'world'], ''), 'hello world');
-     assertEq('compose (with interim)', composeTranscript(['hello'], 'there'), 'hello there');
-     assertEq('compose (both empty)', composeTranscript([], ''), '');
- 
-     // Smoothing tests
-     assertEq('smooth keeps longer when new is prefix', smoothInterim('hello wor', 'hello'), 'hello wor');
-     assertEq('smooth accepts new when not prefix', smoothInterim('hi the', 'hello'), 'hello');
- 
-     // PCM conversions
-     const f = new Float32Array([1, 0.5, 0, -0.5, -1]);
-     const i = floatToPCM16(f);
-     assertEq('pcm16 length', i.length, 5);
-     assertEq('pcm16 range clamp', Math.max(...Array.from(i)) <= 32767 && Math.min(...Array.from(i)) >= -32768, true);
- 
-     // Downsample
-     const src = new Float32Array(48000); src[0] = 1; // impulse
-     const down = downsampleTo24kHz(src, 48000);
-     assertEq('downsample length', down.length, 24000);
-     
-     setTestOutput(out);
    }
  
    const insecure = !isSecureRuntime();
-   const showStartDisabled = permission !== 'granted';
+   const showStartDisabled = capture !== 'tab' && permission !== 'granted';
+   const latencyRows: [string, number[]][] = [
+     ['Round trip', rtts],
+     ['Speech → first interim', lines.flatMap((ln) => ln.latency?.firstInterimMs ?? [])],
+     ['Speech → final', lines.flatMap((ln) => ln.latency?.finalMs ?? [])],
+   ];
    
    if (!mounted) return null;
    
@@ -523,21 +1181,269 @@
        )}
  
        <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8, flexWrap: 'wrap' }}>
-         <select value={language} onChange={(e) => setLanguage(e.target.value)} style={{ padding: '6px 8px' }}>
-           <option value="en">English</option>
-           <option value="ko">Korean</option>
-           <option value="es">Spanish</option>
-           <option value="de">German</option>
-           <option value="ja">Japanese</option>
+         <select value={language} onChange={(e) => setLanguage(e.target.value)} style={{ padding: '6px 8px' }} title="Spoken language">
+           {LANGUAGES.map(([code, name]) => <option key={code} value={code}>{name}</option>)}
+         </select>
+         <select value={translateTo} onChange={(e) => setTranslateTo(e.target.value)} style={{ padding: '6px 8px' }} title="Also translate each final">
+           <option value="">No translation</option>
+           {LANGUAGES.filter(([code]) => code !== language).map(([code, name]) => <option key={code} value={code}>→ {name}</option>)}
          </select>
          <span style={{ opacity: 0.7, fontSize: 12 }}>Mic: {permission}</span>
-         <span style={{ opacity: 0.9, fontSize: 12 }}>WS: {status}</span>
-         <span style={{ opacity: 0.9, fontSize: 12 }}>{latencyMs !== null ? `~${latencyMs} ms` : 'latency: —'}</span>
+         <span style={{ opacity: 0.9, fontSize: 12, color: status === 'reconnecting' || status === 'provider-reconnecting' ? '#b45309' : undefined }}>
+           WS: {status}{bufferedSec > 0 ? ` · ${bufferedSec.toFixed(1)} s buffered` : ''}
+         </span>
+         <span style={{ opacity: 0.9, fontSize: 12 }} title="Round trip to the relay">{rtts.length ? `~${rtts[rtts.length - 1]} ms` : 'latency: —'}</span>
          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }}>
            <input type="checkbox" checked={autoScroll} onChange={(e) => setAutoScroll(e.target.checked)} /> Auto‑scroll
          </label>
+         <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12 }} title="Send PCM as raw binary WebSocket frames instead of base64 JSON">
+           <input type="checkbox" checked={transport === 'binary'} onChange={(e) => setTransport(e.target.checked ? 'binary' : 'json')} /> Binary audio
+         </label>
        </div>
+
+       <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8, flexWrap: 'wrap', fontSize: 12 }}>
+         <select value={capture} onChange={(e) => changeCapture(e.target.value as CaptureSource)} style={{ padding: '6px 8px' }} title="What to transcribe">
+           <option value="mic">Microphone</option>
+           <option value="tab">Tab / screen audio</option>
+           <option value="both">Microphone + tab</option>
+         </select>
+         {capture !== 'tab' && (
+           <>
+             <select value={inputId} onChange={(e) => changeInput(e.target.value, processing)} style={{ padding: '6px 8px', maxWidth: 260 }} title="Microphone">
+               <option value="">System default microphone</option>
+               {inputId && !inputs.some((d) => d.deviceId === inputId) && <option value={inputId}>Saved microphone</option>}
+               {inputs.map((d) => <option key={d.deviceId} value={d.deviceId}>{d.label}</option>)}
+             </select>
+             {(Object.keys(PROCESSING_LABELS) as (keyof AudioProcessing)[]).map((key) => (
+               <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                 <input type="checkbox" checked={processing[key]} onChange={(e) => changeInput(inputId, { ...processing, [key]: e.target.checked })} /> {PROCESSING_LABELS[key]}
+               </label>
+             ))}
+           </>
+         )}
+         {CAPTURE_KINDS[capture].map((kind) => (
+           <label key={kind} style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Level of this source in what gets transcribed">
+             {kind === 'mic' ? 'Mic' : 'Tab'} gain
+             <input type="range" min={0} max={2} step={0.05} value={gains[kind]} onChange={(e) => changeGain(kind, Number(e.target.value))} style={{ width: 80 }} />
+             <span style={{ width: 34 }}>{Math.round(gains[kind] * 100)}%</span>
+           </label>
+         ))}
+         {recording && (
+           <div title="Input level" style={{ width: 120, height: 8, background: '#e5e7eb', borderRadius: 4, overflow: 'hidden' }}>
+             <div ref={levelBarRef} style={{ width: 0, height: '100%', background: '#16a34a', transition: 'width 50ms linear' }} />
+           </div>
+         )}
+         {levelWarning === 'clipping' && <span style={{ color: '#dc2626' }}>Input is clipping: turn the mic gain down or move back a little.</span>}
+         {levelWarning === 'silent' && (
+           <span style={{ color: '#b45309' }}>
+             {capture === 'mic' ? 'No sound from the microphone. Is it muted, or the wrong input?' : 'No sound coming in. Is the mic muted, or the shared tab quiet?'}
+           </span>
+         )}
+         {inputNotice && <span style={{ opacity: 0.7 }}>{inputNotice}</span>}
+       </div>
+
+       <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8, flexWrap: 'wrap', fontSize: 12 }}>
+         <label style={{ display: 'flex', alignItems: 'center', gap: 6 }} title="Commit at natural pauses and skip silence instead of flushing every 1.2 s">
+           <input type="checkbox" checked={vad.enabled} onChange={(e) => updateVad({ enabled: e.target.checked })} /> Voice detection
+         </label>
+         {vad.enabled && (
+           <>
+             <span style={{ color: speaking ? '#16a34a' : undefined, opacity: speaking ? 1 : 0.6 }}>{recording ? (speaking ? '● speech' : '○ silence') : ''}</span>
+             {([
+               ['thresholdDb', 'Threshold (dB)', -80, -10, 1],
+               ['minSpeechMs', 'Min speech (ms)', 20, 2000, 20],
+               ['hangoverMs', 'Hangover (ms)', 100, 3000, 50],
+               ['maxSegmentMs', 'Max segment (ms)', 2000, 60000, 1000],
+             ] as const).map(([key, label, min, max, step]) => (
+               <label key={key} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                 {label}
+                 <input
+                   type="number"
+                   min={min}
+                   max={max}
+                   step={step}
+                   value={vad[key]}
+                   onChange={(e) => {
+                     const v = Number(e.target.value);
+                     if (Number.isFinite(v)) updateVad({ [key]: Math.min(max, Math.max(min, v)) });
+                   }}
+                   style={{ width: 72, padding: '2px 4px' }}
+                 />
+               </label>
+             ))}
+           </>
+         )}
+       </div>
+
+       <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8, flexWrap: 'wrap', fontSize: 12 }}>
+         <select value={speakerMode} onChange={(e) => setSpeakerMode(e.target.value as SpeakerMode)} style={{ padding: '2px 4px' }} title="How lines get a speaker label">
+           <option value="auto">Speakers: by voice</option>
+           <option value="manual">Speakers: by hand</option>
+           <option value="off">Speakers: off</option>
+         </select>
+         {speakerMode === 'manual' && (
+           <label style={{ display: 'flex', alignItems: 'center', gap: 4 }} title="Label for what is said from now on">
+             Now speaking
+             <select value={currentSpeaker} onChange={(e) => setCurrentSpeaker(e.target.value === NEW_SPEAKER ? newSpeaker() : e.target.value)} style={{ padding: '2px 4px' }}>
+               <option value="">—</option>
+               {speakers.map((sp) => <option key={sp.id} value={sp.id}>{sp.name || defaultSpeakerName(sp.id)}</option>)}
+               <option value={NEW_SPEAKER}>New speaker…</option>
+             </select>
+           </label>
+         )}
+         {speakers.map((sp) => (
+           <span key={sp.id} style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '2px 6px', border: `1px solid ${speakerColor(sp.id)}`, borderRadius: 12 }}>
+             <input
+               value={sp.name}
+               onChange={(e) => renameSpeaker(sp.id, e.target.value)}
+               placeholder={defaultSpeakerName(sp.id)}
+               title="Rename"
+               style={{ width: 90, border: 'none', background: 'transparent', color: speakerColor(sp.id), fontWeight: 600 }}
+             />
+             {speakers.length > 1 && (
+               <select value="" onChange={(e) => { if (e.target.value) mergeSpeaker(sp.id, e.target.value); }} style={{ fontSize: 11, border: 'none', background: 'transparent' }} title="Same person as…">
+                 <option value="">merge…</option>
+                 {speakers.filter((o) => o.id !== sp.id).map((o) => <option key={o.id} value={o.id}>into {o.name || defaultSpeakerName(o.id)}</option>)}
+               </select>
+             )}
+           </span>
+         ))}
+       </div>
+
+       <details style={{ marginBottom: 8, fontSize: 12 }}>
+         <summary style={{ cursor: 'pointer' }}>Glossary{glossary.length ? ` (${glossary.length} term${glossary.length === 1 ? '' : 's'})` : ''}</summary>
+         <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 6 }}>
+           <div style={{ opacity: 0.7 }}>
+             One term per line. After a colon, list known mishearings separated by commas; each is matched as a whole phrase.
+             Terms bias the recognizer and are fixed up in every transcript.
+           </div>
+           <textarea
+             value={glossaryDraft}
+             onChange={(e) => setGlossaryDraft(e.target.value)}
+             placeholder={'Kubernetes\nBeyondConversation: beyond conversation, beyond convo'}
+             rows={4}
+             style={{ width: '100%', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: 12, padding: 6 }}
+           />
+           <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+             <button onClick={applyGlossaryDraft} style={{ padding: '4px 8px' }} disabled={JSON.stringify(parseGlossary(glossaryDraft)) === JSON.stringify(glossary)}>Apply</button>
+             {parseGlossary(glossaryDraft).length > GLOSSARY_LIMITS.terms && <span style={{ color: '#b45309' }}>Only the first {GLOSSARY_LIMITS.terms} terms are used.</span>}
+           </div>
+         </div>
+       </details>
+
+       <details style={{ marginBottom: 8, fontSize: 12 }}>
+         <summary style={{ cursor: 'pointer' }}>Redaction{Object.keys(redaction).length ? ` (${Object.keys(redaction).length} on)` : ''}</summary>
+         <div style={{ opacity: 0.7, margin: '6px 0' }}>
+           The relay masks these before transcripts reach this page, viewers or recordings. It may enforce more than you pick here.
+         </div>
+         <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+           {REDACTION_KINDS.map((kind) => (
+             <label key={kind} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+               {REDACTION_LABELS[kind]}
+               <select
+                 value={redaction[kind] ?? ''}
+                 onChange={(e) => {
+                   const next = { ...redaction };
+                   if (e.target.value) next[kind] = e.target.value as MaskStyle;
+                   else delete next[kind];
+                   setRedaction(next);
+                 }}
+                 style={{ padding: '2px 4px' }}
+               >
+                 <option value="">off</option>
+                 {MASK_STYLES.map((style) => <option key={style} value={style}>{style}</option>)}
+               </select>
+             </label>
+           ))}
+         </div>
+       </details>
+
+       <details style={{ marginBottom: 8, fontSize: 12 }}>
+         <summary style={{ cursor: 'pointer' }}>Stats</summary>
+         <table style={{ borderCollapse: 'collapse', margin: '6px 0' }}>
+           <thead>
+             <tr style={{ opacity: 0.6, textAlign: 'right' }}>
+               <th />
+               <th style={{ padding: '2px 8px' }}>last</th>
+               <th style={{ padding: '2px 8px' }}>median</th>
+               <th style={{ padding: '2px 8px' }}>p95</th>
+               <th style={{ padding: '2px 8px' }}>samples</th>
+             </tr>
+           </thead>
+           <tbody>
+             {latencyRows.map(([label, values]) => {
+               const summary = summarizeLatency(values);
+               return (
+                 <tr key={label} style={{ textAlign: 'right', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>
+                   <td style={{ textAlign: 'left', fontFamily: 'system-ui, sans-serif' }}>{label}</td>
+                   <td style={{ padding: '2px 8px' }}>{summary ? formatMs(values[values.length - 1]) : '—'}</td>
+                   <td style={{ padding: '2px 8px' }}>{summary ? formatMs(summary.p50) : '—'}</td>
+                   <td style={{ padding: '2px 8px' }}>{summary ? formatMs(summary.p95) : '—'}</td>
+                   <td style={{ padding: '2px 8px' }}>{summary?.n ?? 0}</td>
+                 </tr>
+               );
+             })}
+           </tbody>
+         </table>
+         <div style={{ opacity: 0.7 }}>
+           Speech timings are measured on the relay, from when a line&apos;s first audio arrived; the trip there adds about half a round trip.
+           {bufferedSec > 0 && ` ${bufferedSec.toFixed(1)} s of audio is waiting to be sent.`}
+         </div>
+       </details>
  
+       {localStore && (
+         <details style={{ marginBottom: 8, fontSize: 12 }}>
+           <summary style={{ cursor: 'pointer' }}>Saved in this browser ({localSessions.filter((s) => s.state !== 'trashed').length})</summary>
+           <div style={{ marginTop: 6 }}>
+             {localSessions.filter((s) => s.state !== 'trashed').map((s) => (
+               <div key={s.id} style={{ display: 'flex', gap: 8, alignItems: 'center', padding: '2px 0' }}>
+                 <input
+                   defaultValue={s.name}
+                   onBlur={(e) => {
+                     const name = e.target.value.trim();
+                     if (name && name !== s.name) updateLocal((store) => store.rename(s.id, name));
+                   }}
+                   style={{ width: 180, fontSize: 12, padding: '2px 4px' }}
+                   title="Rename"
+                 />
+                 <span style={{ opacity: 0.6, whiteSpace: 'nowrap' }}>{s.lineCount} lines · {new Date(s.updatedAt).toLocaleString()}</span>
+                 <span title={s.preview} style={{ flex: 1, opacity: 0.6, overflow: 'hidden', whiteSpace: 'nowrap', textOverflow: 'ellipsis' }}>{s.preview}</span>
+                 {s.id === localId ? (
+                   <span style={{ opacity: 0.6 }}>current</span>
+                 ) : (
+                   <>
+                     <button onClick={() => openLocal(s)} disabled={recording} style={{ padding: '2px 8px' }}>Open</button>
+                     <button onClick={() => updateLocal((store) => store.trash(s.id))} style={{ padding: '2px 8px' }}>Trash</button>
+                   </>
+                 )}
+               </div>
+             ))}
+             {localSessions.some((s) => s.state === 'trashed') && (
+               <div style={{ marginTop: 8 }}>
+                 <div style={{ display: 'flex', gap: 8, alignItems: 'center', opacity: 0.7, marginBottom: 2 }}>
+                   Trash (emptied after {Math.round(TRASH_RETENTION_MS / (24 * 3600_000))} days)
+                   <button
+                     onClick={() => { if (confirm('Delete every transcript in the trash?')) updateLocal((store) => store.emptyTrash()); }}
+                     style={{ padding: '2px 8px' }}
+                   >Empty trash</button>
+                 </div>
+                 {localSessions.filter((s) => s.state === 'trashed').map((s) => (
+                   <div key={s.id} style={{ display: 'flex', gap: 8, alignItems: 'center', padding: '2px 0' }}>
+                     <span style={{ width: 180 }}>{s.name}</span>
+                     <span style={{ flex: 1, opacity: 0.6 }}>{s.lineCount} lines · trashed {new Date(s.trashedAt ?? s.updatedAt).toLocaleString()}</span>
+                     <button onClick={() => updateLocal((store) => store.untrash(s.id))} style={{ padding: '2px 8px' }}>Restore</button>
+                     <button
+                       onClick={() => { if (confirm(`Delete "${s.name}" for good?`)) updateLocal((store) => store.remove(s.id)); }}
+                       style={{ padding: '2px 8px' }}
+                     >Delete</button>
+                   </div>
+                 ))}
+               </div>
+             )}
+           </div>
+         </details>
+       )}
+
        <div style={{ display: 'flex', gap: 8, marginBottom: 12, flexWrap: 'wrap' }}>
          <button onClick={requestMicPermission} style={{ padding: '8px 12px' }}>Enable Microphone</button>
          {!recording ? (
@@ -546,40 +1452,315 @@
            <button onClick={stop} style={{ padding: '8px 12px' }}>Stop</button>
          )}
          <button onClick={resetTranscript} style={{ padding: '8px 12px' }}>Reset</button>
+         <button onClick={undoEdit} style={{ padding: '8px 12px' }} disabled={!history.undo.length} title="Undo the last transcript edit (Ctrl+Z)">Undo</button>
+         <button onClick={redoEdit} style={{ padding: '8px 12px' }} disabled={!history.redo.length} title="Redo (Ctrl+Shift+Z)">Redo</button>
+         <button
+           onClick={() => fileInputRef.current?.click()}
+           style={{ padding: '8px 12px' }}
+           disabled={recording || !!upload}
+           title={recording ? 'Stop recording first' : 'Transcribe an audio file'}
+         >
+           Upload audio
+         </button>
+         <input
+           ref={fileInputRef}
+           type="file"
+           accept="audio/*"
+           style={{ display: 'none' }}
+           onChange={(e) => {
+             const file = e.target.files?.[0];
+             e.target.value = '';
+             if (file) void uploadFile(file);
+           }}
+         />
+         <button
+           onClick={() => void summarize()}
+           style={{ padding: '8px 12px' }}
+           disabled={recording || summarizing || !lines.length}
+           title={recording ? 'Stop recording first' : 'Summary, decisions and action items of the transcript'}
+         >
+           {summarizing ? 'Summarizing…' : summary ? 'Summarize again' : 'Summarize'}
+         </button>
          
-         {console.log('[client] SAVE fullText length =', fullText.length, 'text =', fullText.slice(0, 120), '...')}
-         
-         <button onClick={() => downloadText(`transcript-${Date.now()}.txt`, fullText)} style={{ padding: '8px 12px' }}>Save .txt (all)</button>
-         <button onClick={runTests} style={{ padding: '8px 12px' }}>Run tests</button>
+         <select
+           value=""
+           onChange={(e) => { if (e.target.value) exportAs(e.target.value as ExportFormat); }}
+           style={{ padding: '8px 12px' }}
+           title="Download the transcript"
+         >
+           <option value="" disabled>Export…</option>
+           <option value="txt">Plain text (.txt, all)</option>
+           <option value="srt" disabled={!lines.length}>Subtitles (.srt)</option>
+           <option value="vtt" disabled={!lines.length}>WebVTT captions (.vtt)</option>
+           <option value="json" disabled={!lines.length}>Segments (.json)</option>
+           <option value="md" disabled={!lines.length}>Notes (.md)</option>
+         </select>
+         {showTranslation && (
+           <select value={cueTrack} onChange={(e) => setCueTrack(e.target.value as CueTrack)} style={{ padding: '8px 12px' }} title="Text of .srt/.vtt cues">
+             <option value="original">Captions: original</option>
+             <option value="translation">Captions: translation</option>
+             <option value="both">Captions: both</option>
+           </select>
+         )}
+         <Link href="/history" style={{ padding: '8px 12px', border: '1px solid #e5e7eb', borderRadius: 8 }}>History</Link>
        </div>
+
+       {room && (
+         <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 12, flexWrap: 'wrap', fontSize: 12 }}>
+           <span>
+             Room <b style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{room}</b> · {roomState.viewers} viewer{roomState.viewers === 1 ? '' : 's'}
+             {roomState.paused && <span style={{ color: '#b45309' }}> · paused for viewers</span>}
+           </span>
+           <Link href={`/view/${room}`} target="_blank" style={{ textDecoration: 'underline' }}>Open viewer</Link>
+           <Link href={`/overlay/${room}`} target="_blank" style={{ textDecoration: 'underline' }} title="Transparent captions for OBS or slides; size, font, position and timeout via URL parameters">Caption overlay</Link>
+           <button onClick={copyViewerLink} style={{ padding: '4px 8px' }}>Copy link</button>
+           <button onClick={() => sendMessage({ type: 'room.control', action: roomState.paused ? 'resume' : 'pause' })} style={{ padding: '4px 8px' }}>
+             {roomState.paused ? 'Resume viewers' : 'Pause viewers'}
+           </button>
+           <button onClick={() => sendMessage({ type: 'room.control', action: 'clear' })} style={{ padding: '4px 8px' }} title="Wipe the viewers' transcript (yours stays)">Clear viewers</button>
+         </div>
+       )}
  
-       {micError && (
+       {upload && (
+         <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 12, fontSize: 12 }}>
+           <span style={{ maxWidth: 240, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{upload.name}</span>
+           <div style={{ flex: 1, height: 6, background: '#e5e7eb', borderRadius: 3, overflow: 'hidden' }}>
+             <div style={{ width: `${Math.round(upload.progress * 100)}%`, height: '100%', background: '#2563eb' }} />
+           </div>
+           <span style={{ width: 110 }}>{upload.phase === 'streaming' ? `${Math.round(upload.progress * 100)}%` : `${upload.phase}…`}</span>
+           <button onClick={cancelUpload} style={{ padding: '4px 8px' }}>Cancel</button>
+         </div>
+       )}
+
+       {relayNotice && (
          <div style={{ padding: 12, border: '1px solid #fde68a', background: '#fffbeb', color: '#7c2d12', borderRadius: 12, marginBottom: 12 }}>
-           <div style={{ fontWeight: 600, marginBottom: 6 }}>Microphone issue: {micError.code}</div>
-           <div style={{ marginBottom: 6 }}>{micError.message}</div>
-           <ul style={{ marginLeft: 16, listStyle: 'disc' }}>
-             <li>Click the <b>🔒</b> icon in the address bar → <b>Site settings</b> → set <b>Microphone: Allow</b>, then reload.</li>
-             <li>On macOS: <b>System Settings → Privacy & Security → Microphone</b> → allow your browser.</li>
-             <li>Close other apps using the mic (Zoom/Meet/Teams/recorders) and try again.</li>
-           </ul>
+           <div style={{ fontWeight: 600, marginBottom: 6 }}>Relay closed the session</div>
+           <div>{relayNotice} Press Start to open a new one.</div>
          </div>
        )}
- 
-       {/* Real‑time Transcript Pane */}
-       <div ref={paneRef} style={{ border: '1px solid #e5e7eb', borderRadius: 12, padding: 12, background: '#fff', height: 300, overflow: 'auto' }}>
-         {lines.map((ln) => (
-           <div key={ln.id} style={{ display: 'flex', gap: 8 }}>
-             <div style={{ width: 70, textAlign: 'right', opacity: 0.5, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{new Date(ln.ts).toLocaleTimeString()}</div>
-             <div style={{ flex: 1 }}>{ln.text}</div>
+
+       {restoreOffer && (
+         <div style={{ padding: 12, border: '1px solid #bfdbfe', background: '#eff6ff', color: '#1e3a8a', borderRadius: 12, marginBottom: 12 }}>
+           <div style={{ fontWeight: 600, marginBottom: 6 }}>Unfinished transcript found</div>
+           <div style={{ marginBottom: 8 }}>
+             &ldquo;{restoreOffer.name}&rdquo; ({restoreOffer.lineCount} line{restoreOffer.lineCount === 1 ? '' : 's'}, last changed {new Date(restoreOffer.updatedAt).toLocaleString()}) was not closed properly.
            </div>
-         ))}
-         {interim && (
            <div style={{ display: 'flex', gap: 8 }}>
-             <div style={{ width: 70, textAlign: 'right', opacity: 0.3, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>…</div>
-             <div style={{ flex: 1, opacity: 0.6 }}>{interim}</div>
+             <button onClick={() => openLocal(restoreOffer)} disabled={recording} style={{ padding: '4px 8px' }}>Restore</button>
+             <button onClick={dismissRestore} style={{ padding: '4px 8px' }} title="Keep it under Saved in this browser">Dismiss</button>
            </div>
+         </div>
+       )}
+
+       {trashed && (
+         <div style={{ display: 'flex', gap: 8, alignItems: 'center', padding: '6px 12px', border: '1px solid #e5e7eb', borderRadius: 12, marginBottom: 12, fontSize: 12 }}>
+           <span style={{ flex: 1 }}>The transcript was moved to the trash.</span>
+           <button onClick={() => openLocal(trashed)} disabled={recording} style={{ padding: '2px 8px' }}>Undo</button>
+           <button onClick={() => setTrashed(null)} style={{ padding: '2px 8px' }} aria-label="Dismiss">×</button>
+         </div>
+       )}
+
+       {micError && (
+         <div style={{ padding: 12, border: '1px solid #fde68a', background: '#fffbeb', color: '#7c2d12', borderRadius: 12, marginBottom: 12 }}>
+           <div style={{ fontWeight: 600, marginBottom: 6 }}>{micError.source === 'tab' ? 'Tab audio' : 'Microphone'} issue: {micError.code}</div>
+           <div style={{ marginBottom: 6 }}>{micError.message}</div>
+           {micError.source === 'tab' ? (
+             <ul style={{ marginLeft: 16, listStyle: 'disc' }}>
+               <li>In the share dialog pick the <b>Chrome tab</b> of your call and keep <b>Share tab audio</b> on.</li>
+               <li>For a desktop app (Zoom/Teams), share the <b>entire screen</b> with <b>Share system audio</b> (Windows and ChromeOS only).</li>
+               <li>On macOS: <b>System Settings → Privacy & Security → Screen Recording</b> → allow your browser.</li>
+             </ul>
+           ) : (
+             <ul style={{ marginLeft: 16, listStyle: 'disc' }}>
+               <li>Click the <b>🔒</b> icon in the address bar → <b>Site settings</b> → set <b>Microphone: Allow</b>, then reload.</li>
+               <li>On macOS: <b>System Settings → Privacy & Security → Microphone</b> → allow your browser.</li>
+               <li>Close other apps using the mic (Zoom/Meet/Teams/recorders) and try again.</li>
+             </ul>
+           )}
+         </div>
+       )}
+ 
+       <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginBottom: 8, fontSize: 12 }}>
+         <input
+           type="search"
+           value={query}
+           placeholder="Search transcript"
+           onChange={(e) => { setQuery(e.target.value); setMatchIndex(0); }}
+           onKeyDown={(e) => {
+             if (e.key === 'Enter') { e.preventDefault(); stepMatch(e.shiftKey ? -1 : 1); }
+             if (e.key === 'Escape') setQuery('');
+           }}
+           style={{ padding: '6px 8px', width: 240 }}
+         />
+         {query.trim() && (
+           <>
+             <span>{matches.length ? `${Math.min(matchIndex, matches.length - 1) + 1} / ${matches.length}` : 'No matches'}</span>
+             <button onClick={() => stepMatch(-1)} disabled={!matches.length} style={{ padding: '4px 8px' }} title="Previous match (Shift+Enter)">↑</button>
+             <button onClick={() => stepMatch(1)} disabled={!matches.length} style={{ padding: '4px 8px' }} title="Next match (Enter)">↓</button>
+             {autoScroll && <span style={{ opacity: 0.6 }}>Auto-scroll paused while searching</span>}
+           </>
          )}
+         <button onClick={addBookmark} style={{ marginLeft: 'auto', padding: '4px 8px' }} title="Bookmark the latest line (Alt+B)">Bookmark</button>
        </div>
+
+       <div style={{ display: 'flex', gap: 8 }}>
+         {/* Real‑time Transcript Pane */}
+         <div ref={paneRef} onMouseUp={captureSelection} style={{ flex: 1, position: 'relative', border: '1px solid #e5e7eb', borderRadius: 12, padding: 12, background: '#fff', height: 300, overflow: 'auto' }}>
+           {lines.map((ln) => (
+             <div key={ln.id} data-line-id={ln.id} style={{ display: 'flex', gap: 8, background: annotatedIds.has(ln.id) ? '#fffbeb' : undefined }}>
+               <div title={`#${ln.seq}${ln.source ? ` · ${ln.source}` : ''} · ${formatOffset(ln.startMs)}–${formatOffset(ln.endMs)} · received ${new Date(ln.receivedAt).toLocaleTimeString()}${ln.latency ? ` · final after ${formatMs(ln.latency.finalMs)}` : ''}`} style={{ width: 70, textAlign: 'right', opacity: 0.5, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{formatOffset(ln.startMs)}</div>
+               {showSpeakers && (
+                 <select
+                   value={ln.speaker ?? ''}
+                   onChange={(e) => reassignLine(ln.id, e.target.value)}
+                   title="Who said this"
+                   style={{ width: 110, alignSelf: 'flex-start', fontSize: 12, border: 'none', background: 'transparent', fontWeight: 600, color: ln.speaker ? speakerColor(ln.speaker) : '#9ca3af' }}
+                 >
+                   <option value="">—</option>
+                   {speakers.map((sp) => <option key={sp.id} value={sp.id}>{sp.name || defaultSpeakerName(sp.id)}</option>)}
+                   <option value={NEW_SPEAKER}>New speaker…</option>
+                 </select>
+               )}
+               {editing?.id === ln.id ? (
+                 <div style={{ flex: 1 }}>
+                   <textarea
+                     ref={editorRef}
+                     autoFocus
+                     value={editing.draft}
+                     onChange={(e) => setEditing({ id: ln.id, draft: e.target.value })}
+                     onKeyDown={(e) => {
+                       if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); saveEdit(); }
+                       if (e.key === 'Escape') setEditing(null);
+                     }}
+                     rows={Math.max(1, Math.ceil(editing.draft.length / 70))}
+                     style={{ width: '100%', font: 'inherit', padding: '2px 4px', border: '1px solid #93c5fd', borderRadius: 6, resize: 'vertical' }}
+                   />
+                   <div style={{ display: 'flex', gap: 6, fontSize: 12 }}>
+                     <button onClick={saveEdit} style={{ padding: '2px 6px' }}>Save</button>
+                     <button onClick={splitAtCursor} style={{ padding: '2px 6px' }} title="Split the line where the cursor is">Split at cursor</button>
+                     <button onClick={mergeWithNext} style={{ padding: '2px 6px' }} disabled={ln.id === lines[lines.length - 1]?.id}>Merge with next</button>
+                     <button onClick={() => setEditing(null)} style={{ padding: '2px 6px' }}>Cancel</button>
+                     {ln.originalText !== undefined && <span style={{ opacity: 0.6, alignSelf: 'center' }}>Transcribed: “{ln.originalText}”</span>}
+                   </div>
+                 </div>
+               ) : (
+                 <div style={{ flex: 1, cursor: 'text' }} onClick={() => { if (!window.getSelection()?.toString()) beginEdit(ln); }} title="Click to edit, or select text to take a note">
+                   <MarkedText text={ln.text} redactions={ln.redactions} matches={matchesByLine.get(ln.id)?.filter((m) => m.field === 'text')} current={currentMatch} />
+                   {isEdited(ln) && <span title={`Transcribed: ${ln.originalText}`} style={{ marginLeft: 6, fontSize: 11, color: '#b45309' }}>edited</span>}
+                 </div>
+               )}
+               {showTranslation && (
+                 <div style={{ flex: 1, color: '#1d4ed8', opacity: ln.translation ? 1 : 0.4 }}>
+                   {ln.translation ? <MarkedText text={ln.translation} matches={matchesByLine.get(ln.id)?.filter((m) => m.field === 'translation')} current={currentMatch} /> : '…'}
+                 </div>
+               )}
+             </div>
+           ))}
+           {interim && (
+             <div style={{ display: 'flex', gap: 8 }}>
+               <div style={{ width: 70, textAlign: 'right', opacity: 0.3, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>…</div>
+               {showSpeakers && <div style={{ width: 110 }} />}
+               <div style={{ flex: 1, opacity: 0.6 }}>{interim}</div>
+             </div>
+           )}
+         </div>
+
+         <aside style={{ width: 240, height: 300, overflow: 'auto', border: '1px solid #e5e7eb', borderRadius: 12, padding: 8, background: '#fff', fontSize: 12 }}>
+           <div style={{ display: 'flex', alignItems: 'center', marginBottom: 6 }}>
+             <b style={{ flex: 1 }}>Bookmarks &amp; notes</b>
+             {tagFilter && <button onClick={() => setTagFilter('')} style={{ padding: '0 6px' }} title="Show all">#{tagFilter} ×</button>}
+           </div>
+           {!annotations.length && <div style={{ opacity: 0.6 }}>Alt+B bookmarks the latest line. Select text in the transcript to save it as a note.</div>}
+           {shownAnnotations.map((a) => (
+             <div key={a.id} style={{ borderTop: '1px solid #f3f4f6', padding: '6px 0' }}>
+               <div style={{ display: 'flex', gap: 6, alignItems: 'baseline' }}>
+                 <button onClick={() => jumpToAnnotation(a)} title="Show in the transcript" style={{ border: 'none', background: 'none', padding: 0, color: '#2563eb', cursor: 'pointer', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>
+                   {formatOffset(a.atMs)}
+                 </button>
+                 <span style={{ flex: 1 }}>{a.kind === 'bookmark' ? 'Bookmark' : <i>&ldquo;{a.quote}&rdquo;</i>}</span>
+                 <button onClick={() => removeAnnotation(a.id)} aria-label="Delete" style={{ border: 'none', background: 'none', cursor: 'pointer', opacity: 0.6 }}>×</button>
+               </div>
+               <input
+                 value={a.comment ?? ''}
+                 placeholder={a.kind === 'bookmark' ? 'Label…' : 'Comment…'}
+                 onChange={(e) => updateAnnotation(a.id, { comment: e.target.value || undefined })}
+                 style={{ width: '100%', border: 'none', borderBottom: '1px dashed #e5e7eb', fontSize: 12, padding: '2px 0' }}
+               />
+               {a.tags.length > 0 && (
+                 <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap', marginTop: 4 }}>
+                   {a.tags.map((t) => (
+                     <button key={t} onClick={() => setTagFilter(t)} style={{ border: 'none', background: '#eef2ff', color: '#3730a3', borderRadius: 4, padding: '0 4px', cursor: 'pointer', fontSize: 11 }}>#{t}</button>
+                   ))}
+                 </div>
+               )}
+             </div>
+           ))}
+         </aside>
+       </div>
+
+       {noteDraft && (
+         <div style={{ display: 'flex', gap: 8, alignItems: 'center', marginTop: 8, fontSize: 12, flexWrap: 'wrap' }}>
+           <span style={{ maxWidth: 260, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>Note on &ldquo;{noteDraft.quote}&rdquo;</span>
+           <input value={noteDraft.tags} placeholder="#tags" onChange={(e) => setNoteDraft({ ...noteDraft, tags: e.target.value })} style={{ padding: '4px 6px', width: 120 }} />
+           <input
+             autoFocus
+             value={noteDraft.comment}
+             placeholder="Comment (optional)"
+             onChange={(e) => setNoteDraft({ ...noteDraft, comment: e.target.value })}
+             onKeyDown={(e) => {
+               if (e.key === 'Enter') saveNote();
+               if (e.key === 'Escape') setNoteDraft(null);
+             }}
+             style={{ padding: '4px 6px', flex: 1, minWidth: 160 }}
+           />
+           <button onClick={saveNote} style={{ padding: '4px 8px' }}>Save note</button>
+           <button onClick={() => setNoteDraft(null)} style={{ padding: '4px 8px' }}>Cancel</button>
+         </div>
+       )}
+
+       {(summary || summaryError) && (
+         <div style={{ border: '1px solid #e5e7eb', borderRadius: 12, padding: 12, background: '#fff', marginTop: 10, fontSize: 14 }}>
+           <div style={{ display: 'flex', alignItems: 'center', marginBottom: 6 }}>
+             <b style={{ flex: 1 }}>Summary</b>
+             <button onClick={clearSummary} aria-label="Dismiss" style={{ border: 'none', background: 'none', cursor: 'pointer', opacity: 0.6 }}>×</button>
+           </div>
+           {summaryError && <div style={{ color: '#991b1b', fontSize: 12 }}>{summaryError}</div>}
+           {summary && (
+             <>
+               <p style={{ lineHeight: 1.6 }}>{summary.summary}</p>
+               {summary.decisions.length > 0 && (
+                 <>
+                   <div style={{ fontSize: 12, opacity: 0.6, marginTop: 8 }}>Decisions</div>
+                   <ul style={{ marginLeft: 16, listStyle: 'disc' }}>
+                     {summary.decisions.map((d, i) => <li key={i}>{d}</li>)}
+                   </ul>
+                 </>
+               )}
+               {summary.actionItems.length > 0 && (
+                 <>
+                   <div style={{ fontSize: 12, opacity: 0.6, marginTop: 8 }}>Action items</div>
+                   <ul style={{ marginLeft: 16, listStyle: 'disc' }}>
+                     {summary.actionItems.map((a, i) => (
+                       <li key={i}>
+                         {a.task}
+                         {a.owner && <b> — {a.owner}</b>}
+                         {a.due && <span style={{ opacity: 0.7 }}> (due {a.due})</span>}
+                       </li>
+                     ))}
+                   </ul>
+                 </>
+               )}
+               {summary.keywords.length > 0 && (
+                 <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap', marginTop: 8 }}>
+                   {summary.keywords.map((k) => (
+                     <button key={k} onClick={() => { setQuery(k); setMatchIndex(0); }} title="Search the transcript" style={{ border: 'none', background: '#eef2ff', color: '#3730a3', borderRadius: 4, padding: '0 4px', cursor: 'pointer', fontSize: 11 }}>{k}</button>
+                   ))}
+                 </div>
+               )}
+             </>
+           )}
+         </div>
+       )}
  
        {/* Legacy full paragraph */}
        <div style={{ border: '1px dashed #e5e7eb', borderRadius: 12, padding: 12, background: '#fafafa', marginTop: 10 }}>
@@ -590,17 +1771,6 @@
          </p>
        </div>
  
-       {testOutput.length > 0 && (
-         <div style={{ marginTop: 12, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: 13 }}>
-           <div style={{ fontWeight: 600, marginBottom: 4 }}>Test Results</div>
-           <ul>
-             {testOutput.map((line, i) => (
-               <li key={i}>{line}</li>
-             ))}
-           </ul>
-         </div>
-       )}
- 
        <p style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
          Tip: Short phrases yield better interim accuracy. You can start/stop anytime.
        </p>
@@ -0,0 +1,65 @@
+/** BeyondConversation **
+ * Relay access control: token extraction and per-token audio quotas.
+ *
+ * Tokens are issued by the Next.js app (app/api/relay-token) and verified with
+ * app/lib/token.ts. Auth is on when RELAY_TOKEN_SECRET is set.
+ */
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { AUDIO_SAMPLE_RATE } from '../lib/protocol.ts';
+
+/**
+ * Token from `?token=` (browsers can't set WebSocket headers) or `Authorization: Bearer`.
+ * @param {import('node:http').IncomingMessage} req
+ */
+export function tokenFrom(req) {
+  const { searchParams } = new URL(req.url || '/', 'http://localhost');
+  const fromQuery = searchParams.get('token');
+  if (fromQuery) return fromQuery;
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7) : null;
+}
+
+/**
+ * Whether `Authorization: Bearer` carries `secret` (ADMIN_TOKEN, METRICS_TOKEN). Both sides
+ * are hashed first, so the compare takes the same time whatever the length or content.
+ * @param {import('node:http').IncomingMessage} req
+ * @param {string} secret
+ */
+export function bearerMatches(req, secret) {
+  const header = req.headers.authorization || '';
+  const given = header.startsWith('Bearer ') ? header.slice(7) : '';
+  const digest = (/** @type {string} */ v) => createHash('sha256').update(v).digest();
+  return timingSafeEqual(digest(given), digest(secret)) && !!secret;
+}
+
+// Audio streamed per token, across every session it opened
+export class QuotaLedger {
+  constructor() {
+    /** @type {Map<string, { samples: number, forgetAt: number }>} */
+    this.usage = new Map();
+  }
+
+  /**
+   * Record audio against a token; returns whether it is still within its quota.
+   * @param {import('../lib/token.ts').RelayTokenClaims} claims
+   * @param {number} samples  24 kHz samples
+   */
+  charge(claims, samples) {
+    this.prune();
+    const entry = this.usage.get(claims.jti) || { samples: 0, forgetAt: (claims.exp + claims.maxSessionSec) * 1000 };
+    entry.samples += samples;
+    this.usage.set(claims.jti, entry);
+    return entry.samples <= claims.maxAudioSec * AUDIO_SAMPLE_RATE;
+  }
+
+  /** Seconds of audio a token has streamed so far. */
+  usedSeconds(jti) {
+    return (this.usage.get(jti)?.samples || 0) / AUDIO_SAMPLE_RATE;
+  }
+
+  // A token can't open sessions after `exp`, and those end within maxSessionSec
+  prune(now = Date.now()) {
+    for (const [jti, entry] of this.usage) if (entry.forgetAt < now) this.usage.delete(jti);
+  }
+}
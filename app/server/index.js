@@ -1,217 +1,259 @@
 /** BeyondConversation **
- * Real-time Speech-to-Text Web App powered by OpenAI. 
+ * Real-time Speech-to-Text Web App powered by OpenAI.
  * A vibe-coding project.
  */
 
 
 /* ---------------------------------------------------------------------------------
-   SERVER 
+   SERVER
 --------------------------------------------------------------------------------- */
 
 import 'dotenv/config';
+import fs from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { WebSocketServer } from 'ws';
-import WebSocket from 'ws';
+import { Session } from './session.js';
+import { SessionRegistry } from './sessions.js';
+import { RoomRegistry } from './rooms.js';
+import { RecordingStore } from './storage.js';
+import { QuotaLedger, bearerMatches, tokenFrom } from './auth.js';
+import { providerFactory, summarizerFactory } from './providers/index.js';
+import { createRelayMetrics } from './metrics.js';
+import { CLOSE_CODES, PROTOCOL_VERSION, encodeMessage, parseClientMessage } from '../lib/protocol.ts';
+import { verifyToken } from '../lib/token.ts';
+import { parseRedactionPolicy, redact } from '../lib/redaction.ts';
+import { mapSummaryText, parseSummary, parseSummaryRequest } from '../lib/summary.ts';
 
 const PORT = process.env.PORT || 8787;
-const MODEL = process.env.OPENAI_REALTIME_MODEL || 'gpt-4o-realtime-preview-2024-12-17';
-const OPENAI_URL = `wss://api.openai.com/v1/realtime?model=${encodeURIComponent(MODEL)}`;
-
-const WSS = new WebSocketServer({ port: PORT });
-console.log(`[server] ws listening on :${PORT}`);
-
-// Track buffered audio and response lifecycle
-let approxB64SinceCommit = 0;     // How much audio we've appended since last commit
-let activeResponse = false;       // Whether a response is currently running
-const MIN_B64_FOR_100MS = 6400;   // ≈ (2400 samples * 2 bytes) * 4/3 base64 expansion
-
-WSS.on('connection', async (client) => {
-  console.log('[server] client connected');
-  let language = 'en';
-
-  // Connect to OpenAI Realtime
-  const openai = new WebSocket(OPENAI_URL, {
-    headers: {
-      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      'OpenAI-Beta': 'realtime=v1',
-    },
-  });
+const createProvider = providerFactory(process.env);
+const summarize = summarizerFactory(process.env);
 
-  openai.on('open', () => {
-    console.log('[server] connected to OpenAI Realtime');
-    // Configure session for transcription via Whisper
-    const sessionUpdate = {
-      type: 'session.update',
-      session: {
-        input_audio_format: 'pcm16',
-        input_audio_transcription: { model: 'whisper-1', language },
-      },
-    };
-    openai.send(JSON.stringify(sessionUpdate));
-  });
+// RECORD_SESSIONS=1 keeps every session's audio (WAV) and finals under RECORDINGS_DIR
+const RECORDINGS_DIR = process.env.RECORDINGS_DIR || path.join(path.dirname(fileURLToPath(import.meta.url)), 'recordings');
+const store = process.env.RECORD_SESSIONS === '1' ? new RecordingStore(RECORDINGS_DIR) : null;
 
-  // Browser → control/config/audio
-  client.on('message', (raw) => {
-    try {
-      const msg = JSON.parse(raw.toString());
-
-      if (msg.type === 'config' && msg.language) {
-        language = msg.language;
-        const upd = { 
-          type: 'session.update', 
-          session: {
-            input_audio_format: 'pcm16',
-            input_audio_transcription: { model: 'whisper-1', language } 
-          } 
-        };
-        try { openai.send(JSON.stringify(upd)); } catch {}
-        return;
-      }
-      if (msg.type === 'client.audio.append' && typeof msg.audio === 'string') {
-        approxB64SinceCommit += msg.audio.length;
-        
-        console.log('[server] append b64 len =', msg.audio.length);
-
-        openai.send(JSON.stringify({ type: 'input_audio_buffer.append', audio: msg.audio }));
-        return;
-      }
-      if (msg.type === 'client.flush') {
-        console.log('[server] FLUSH: approxB64SinceCommit = ', approxB64SinceCommit, 'activeResponse =', activeResponse);  
-
-        if (approxB64SinceCommit < MIN_B64_FOR_100MS) {
-          // Not enough audio yet - skip committing to avoid 'buffer too small'
-          return;
-        }
-        openai.send(JSON.stringify({ type: 'input_audio_buffer.commit' }));
-
-        if (!activeResponse) {
-          activeResponse = true;
-          openai.send(JSON.stringify({
-            type:'response.create',
-            response: {
-              modalities: ['text'],
-              conversation: null, // Keep each flush isolated
-              temperature: 0,
-              instructions: 
-                'Return ONLY a verbatim transcript of the most recently committed audio. ' +
-                'Do NOT translate, paraphrase, summarize, or add commentary. ' +
-                'Keep the original spoken language; output plain text only.',
-            },
-          }));
-          // Reset counter after asking for a response
-          approxB64SinceCommit = 0;
-        }
-        return;
-      }
-      if (msg.type === 'ping') {
-        client.send(JSON.stringify({ type: 'pong', t: msg.t }));
-        return;
-      }
-    } catch (_) { /* ignore binary */ }
-  });
+// RELAY_TOKEN_SECRET (shared with the Next.js app) turns on token auth for WS and HTTP
+const TOKEN_SECRET = process.env.RELAY_TOKEN_SECRET || '';
+const ledger = new QuotaLedger();
+
+// REDACT=card,email:label,phone:last4 masks PII in every session, whatever clients ask for
+const redactionPolicy = parseRedactionPolicy(process.env.REDACT || '');
+
+// Verified claims, `null` when auth is off, or a rejection reason
+function authorize(req) {
+  if (!TOKEN_SECRET) return { ok: true, claims: null };
+  return verifyToken(tokenFrom(req), TOKEN_SECRET);
+}
+
+const sessions = new SessionRegistry();
+const rooms = new RoomRegistry();
+const metrics = createRelayMetrics({ sessions, rooms });
+
+// GET /metrics is for scrapers, which can't fetch relay tokens; METRICS_TOKEN (Bearer) guards it instead
+const METRICS_TOKEN = process.env.METRICS_TOKEN || '';
+
+// /sessions and /recordings reach everyone's sessions and recorded audio, so relay tokens (any
+// visitor of the app can get one) don't open them: ADMIN_TOKEN (Bearer) does. Unset, they are
+// only open while auth is off.
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+
+function isAdmin(req) {
+  return ADMIN_TOKEN ? bearerMatches(req, ADMIN_TOKEN) : !TOKEN_SECRET;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  res.end(JSON.stringify(body));
+}
+
+// History HTTP (admin): GET /recordings, GET /recordings/:id, GET /recordings/:id/audio.wav, DELETE /recordings/:id
+async function handleRecordings(req, res, id, file) {
+  if (!isAdmin(req)) return sendJson(res, 401, { error: 'unauthorized' });
+  if (!store) return sendJson(res, 503, { error: 'recording-disabled' });
+
+  if (!id && req.method === 'GET') return sendJson(res, 200, { recordings: await store.list() });
+  if (id && file === 'audio.wav' && req.method === 'GET') {
+    const wav = store.audioPath(id);
+    if (!wav) return sendJson(res, 404, { error: 'not-found' });
+    res.writeHead(200, { 'Content-Type': 'audio/wav', 'Content-Length': fs.statSync(wav).size, 'Access-Control-Allow-Origin': '*' });
+    fs.createReadStream(wav).pipe(res);
+    return;
+  }
+  if (file) return sendJson(res, 404, { error: 'not-found' });
+  if (id && req.method === 'GET') {
+    const meta = await store.get(id);
+    return meta ? sendJson(res, 200, meta) : sendJson(res, 404, { error: 'not-found' });
+  }
+  if (id && req.method === 'DELETE') {
+    const result = await store.remove(id);
+    if (result === 'active') return sendJson(res, 409, { error: 'session-active' });
+    return result === 'deleted' ? sendJson(res, 200, { deleted: id }) : sendJson(res, 404, { error: 'not-found' });
+  }
+  return sendJson(res, 405, { error: 'method-not-allowed' });
+}
+
+// Bodies past this are read to the end and refused (transcripts are capped well below it)
+const MAX_BODY_BYTES = 1_000_000;
+
+// The request body as text; null when it is too large
+async function readBody(req) {
+  /** @type {Buffer[]} */
+  const chunks = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size <= MAX_BODY_BYTES) chunks.push(chunk);
+  }
+  return size > MAX_BODY_BYTES ? null : Buffer.concat(chunks).toString('utf8');
+}
 
-  // OpenAI → transcripts
-  openai.on('message', (data) => {
-    try {
-      const text = data.toString();
-      const lines = text.split('\n').filter((l) => l.trim().length > 0);
-
-      for (const line of lines) {
-        let m;
-        try {
-          m = JSON.parse(line);
-        } catch {
-          // Ignore non-JSON line
-          break;
-        }
-        
-        console.log('[server] OpenAI event type =', m.type);
-
-        // When OpenAI starts a response
-        if (m.type === 'response.created') {
-          activeResponse = true;
-          console.log('[server] response.created');
-        }
-
-        if (m.type === 'response.done') {
-          activeResponse = false;
-          console.log('[server] response.done');
-        }
-
-        // Handle content_part events carrying text/transcript
-        if (m.type === 'response.content_part.added') {
-          const p = m.part || {};
-          const t =
-            typeof p.text === 'string' ? p.text :
-            typeof p.content === 'string' ? p.content :
-            typeof p.transcript === 'string' ? p.transcript : '';
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'interim', text: String(t) }));
-          // Do not return; later events (delta/done) may still arrive
-        }
-
-        if (m.type === 'response.content_part.done') {
-          const p = m.part || {};
-          const t =
-            typeof p.text === 'string' ? p.text :
-            typeof p.content === 'string' ? p.content :
-            typeof p.transcript === 'string' ? p.transcript : '';
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'final', text: String(t).trim() }));
-          return;
-        }
-
-        // Surface error payloads to console (helps debugging)
-        if (m.type === 'error' || m.type === 'response.error') {
-          console.error('[server] OpenAI error payload:', m);
-          return;
-        }
-
-        // 1) Audio transcript events
-        if (m.type === 'response.audio_transcript.delta') {
-          const t = String(m.delta || '');
-          if (t) {
-            console.log('[server] ->client INTERIM:', t);
-
-            client.send(JSON.stringify({ type: 'transcript', channel: 'interim', text: t }));
-          }
-          
-        } else if (m.type === 'response.audio_transcript.done') {
-          const t = String(m.text || '').trim();
-          if (t) {
-            console.log('[server] ->client FINAL:', t);
-            client.send(JSON.stringify({ type: 'transcript', channel: 'final', text: t }));
-          }
-        }
-
-        // 2) Text variants
-        if (m.type === 'response.text.delta') {
-          const t = String(m.delta || '');
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'interim', text: t}));
-        } else if (m.type === 'response.text.done') {
-          const t = String(m.text || '').trim();
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'final', text: t }));
-        } else if (m.type === 'response.output_text.delta') {
-          const t = String(m.delta || '');
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'interim', text: t }));
-        } else if (m.type === 'response.delta' && m.delta?.type === 'output_text.delta') {
-          const t = String(m.delta.text || '');
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'interim', text: t }));
-        } else if (m.type === 'response.output_text.done') {
-          const t = String(m.text || '').trim();
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'final', text: t }));
-        } else if (m.type === 'response.completed' && Array.isArray(m.response?.output_text) && m.response.output_text.length) {
-          const t = String(m.response.output_text.map((x)=>x?.content || '').join(' ')).trim();
-          if (t) client.send(JSON.stringify({ type: 'transcript', channel: 'final', text: t }));
-        } else {
-          // Optional debug
-          if (m.type) console.log('[server] OpenAI event:', m.type);
-        }
-      }
-    } catch (e) {
-      console.error('[server] parse from OpenAI failed', e);
-    }
+// POST /summarize: { transcript, language? } → { summary } from the configured provider
+async function handleSummarize(req, res) {
+  if (req.method !== 'POST') return sendJson(res, 405, { error: 'method-not-allowed' });
+  const raw = await readBody(req);
+  if (raw === null) return sendJson(res, 413, { error: 'too-large' });
+  let body = null;
+  try { body = JSON.parse(raw); } catch {}
+  const parsed = parseSummaryRequest(body);
+  if (!parsed.ok) return sendJson(res, 400, { error: 'invalid-message', message: parsed.message });
+
+  // The relay's REDACT policy holds here too: page edits may have brought text back
+  const mask = (text) => (Object.keys(redactionPolicy).length ? redact(text, redactionPolicy).text : text);
+  const started = Date.now();
+  let summary = null;
+  try {
+    summary = parseSummary(await summarize(mask(parsed.request.transcript), { language: parsed.request.language }));
+    if (!summary) throw new Error('provider returned no summary');
+  } catch (e) {
+    metrics.summaries.inc(1, { result: 'error' });
+    console.warn('[server] summary failed:', e instanceof Error ? e.message : e);
+    return sendJson(res, 502, { error: 'summary-failed' });
+  }
+  metrics.summaries.inc(1, { result: 'ok' });
+  console.log(`[server] summarized ${parsed.request.transcript.length} chars in ${Date.now() - started} ms`);
+  return sendJson(res, 200, { summary: mapSummaryText(summary, mask) });
+}
+
+// Admin HTTP: GET /sessions, GET /sessions/:id, DELETE /sessions/:id
+function handleSessions(req, res, id) {
+  if (!isAdmin(req)) return sendJson(res, 401, { error: 'unauthorized' });
+
+  if (!id && req.method === 'GET') return sendJson(res, 200, { sessions: sessions.list() });
+  if (id && req.method === 'GET') {
+    const snap = sessions.inspect(id);
+    return snap ? sendJson(res, 200, snap) : sendJson(res, 404, { error: 'not-found' });
+  }
+  if (id && req.method === 'DELETE') {
+    return sessions.close(id) ? sendJson(res, 200, { closed: id }) : sendJson(res, 404, { error: 'not-found' });
+  }
+  return sendJson(res, 405, { error: 'method-not-allowed' });
+}
+
+function handleMetrics(req, res) {
+  if (METRICS_TOKEN && !bearerMatches(req, METRICS_TOKEN)) return sendJson(res, 401, { error: 'unauthorized' });
+  if (req.method !== 'GET') return sendJson(res, 405, { error: 'method-not-allowed' });
+  res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+  res.end(metrics.render());
+}
+
+// HTTP: /summarize takes relay tokens; /sessions, /recordings and /metrics have their own secrets
+const HTTP = http.createServer((req, res) => {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const [, root, id, file] = pathname.split('/');
+
+  // The history page calls DELETE cross-origin, the live page POSTs JSON to /summarize
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    });
+    return res.end();
+  }
+  if (root === 'metrics' && !id) return handleMetrics(req, res);
+  if (root === 'sessions') return handleSessions(req, res, id);
+  if (root === 'recordings') {
+    handleRecordings(req, res, id, file).catch((e) => {
+      console.error('[server] recordings request failed', e);
+      sendJson(res, 500, { error: 'internal' });
+    });
+    return;
+  }
+  const auth = authorize(req);
+  if (!auth.ok) return sendJson(res, 401, { error: 'unauthorized', reason: auth.reason });
+  if (root === 'summarize' && !id) {
+    handleSummarize(req, res).catch((e) => {
+      console.error('[server] summarize request failed', e);
+      sendJson(res, 500, { error: 'internal' });
+    });
+    return;
+  }
+  return sendJson(res, 404, { error: 'not-found' });
+});
+
+const WSS = new WebSocketServer({ server: HTTP });
+
+// Viewer handshake: read-only subscription to a presenter's room
+function subscribe(client, { version, room: id }) {
+  const fail = (code, message, closeCode) => {
+    try { client.send(encodeMessage({ type: 'error', code, message })); } catch {}
+    client.close(closeCode, message);
+  };
+  if (version !== PROTOCOL_VERSION) {
+    return fail('unsupported-version', `Relay speaks protocol v${PROTOCOL_VERSION}, client sent v${version}.`, CLOSE_CODES.UNSUPPORTED_VERSION);
+  }
+  const room = rooms.get(id);
+  if (!room) return fail('invalid-message', `No live room "${id}".`, CLOSE_CODES.ROOM_NOT_FOUND);
+  room.join(client);
+  console.log(`[server] viewer joined room ${id} (${room.viewers.size} watching)`);
+}
+
+function reject(client, reason) {
+  console.warn(`[server] rejected connection: token ${reason}`);
+  try { client.send(encodeMessage({ type: 'error', code: 'unauthorized', message: `Relay token ${reason}.` })); } catch {}
+  client.close(CLOSE_CODES.UNAUTHORIZED, `token ${reason}`);
+}
+
+WSS.on('connection', (client, req) => {
+  // Token first: nothing (least of all an upstream socket) is opened for a rejected client.
+  // An expired token may still resume the session it opened (reconnects outlive the TTL).
+  const auth = authorize(req);
+  const resumeOnly = !auth.ok && auth.reason === 'expired';
+  if (!auth.ok && !resumeOnly) return reject(client, auth.reason);
+  const claims = auth.ok || resumeOnly ? auth.claims : null;
+
+  // The first frame decides: viewer subscription, resumed session or a new one
+  client.once('message', (raw, isBinary) => {
+    const parsed = isBinary ? null : parseClientMessage(raw.toString());
+    const first = parsed?.ok ? parsed.message : null;
+    if (first?.type === 'subscribe') return resumeOnly ? reject(client, 'expired') : subscribe(client, first);
+
+    const requested = sessions.get(first?.type === 'config' ? first.resume?.sessionId || null : null);
+    const existing = requested?.canResume(claims) ? requested : null;
+    if (requested && !existing) console.warn(`[server] refused to resume ${requested.id}: not the token that opened it`);
+    if (resumeOnly && !existing) return reject(client, 'expired');
+    const session = existing ?? sessions.add(new Session({ createProvider, store, token: claims, ledger, redactionPolicy, metrics }));
+    if (!session.roomId) rooms.open(session);
+    session.attach(client);
+    console.log(`[server] client ${existing ? 'resumed' : 'connected'}: ${session.id} (${sessions.size} live)`);
+    session.handleClientMessage(raw, isBinary);
   });
+});
+
+// PORT=0 picks a free port (the integration test does); the log says which
+HTTP.listen(PORT, () => {
+  const { port } = /** @type {import('node:net').AddressInfo} */ (HTTP.address());
+  console.log(`[server] ws listening on :${port}`);
+  if (store) console.log(`[server] recording sessions to ${store.root}`);
+  if (Object.keys(redactionPolicy).length) console.log(`[server] redacting ${Object.keys(redactionPolicy).join(', ')} in every session`);
+  if (!TOKEN_SECRET) console.warn('[server] RELAY_TOKEN_SECRET is not set: anyone who can reach this port can use the relay');
+  else if (!ADMIN_TOKEN) console.log('[server] ADMIN_TOKEN is not set: /sessions and /recordings are closed');
+});
 
-  const closeAll = () => { try { openai.close(); } catch {} try { client.close(); } catch {} };
-  openai.on('error', (e) => { console.error('[server] OpenAI error', e); try { client.send(JSON.stringify({ type: 'status', value: 'provider-error' })); } catch {} });
-  openai.on('close', closeAll);
-  client.on('close', closeAll);
-});
\ No newline at end of file
+process.on('SIGINT', () => {
+  sessions.closeAll();
+  // Let closing recordings patch their WAV headers before we go
+  (store ? store.settle() : Promise.resolve()).finally(() => process.exit(0));
+});
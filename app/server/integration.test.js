@@ -0,0 +1,257 @@
+/** BeyondConversation **
+ * End to end: the relay (index.js, as `npm start` runs it) between a browser-like
+ * client and a fake OpenAI Realtime server on localhost.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import WebSocket, { WebSocketServer } from 'ws';
+import { MIN_B64_FOR_100MS } from './session.js';
+import { CLOSE_CODES, PROTOCOL_VERSION, encodeMessage } from '../lib/protocol.ts';
+import { issueToken } from '../lib/token.ts';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const WAIT_MS = 10_000;
+
+// Silent PCM16 as base64: `samples` 24 kHz samples
+const pcm = (samples) => Buffer.alloc(samples * 2).toString('base64');
+
+/**
+ * Messages from the relay, claimed in order by `next`; ones that arrive before
+ * anyone waits for them are held, so back-to-back frames are not missed.
+ * @param {WebSocket} ws
+ */
+function inbox(ws) {
+  /** @type {any[]} */
+  const unclaimed = [];
+  /** @type {{ match: (m: any) => boolean, resolve: (m: any) => void }[]} */
+  const waiting = [];
+  ws.on('message', (raw) => {
+    const m = JSON.parse(raw.toString());
+    const i = waiting.findIndex((w) => w.match(m));
+    if (i >= 0) waiting.splice(i, 1)[0].resolve(m);
+    else unclaimed.push(m);
+  });
+  return {
+    /** @param {(m: any) => boolean} match */
+    next(match) {
+      const i = unclaimed.findIndex(match);
+      if (i >= 0) return Promise.resolve(unclaimed.splice(i, 1)[0]);
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('timed out waiting for a message')), WAIT_MS);
+        waiting.push({ match, resolve: (m) => { clearTimeout(timer); resolve(m); } });
+      });
+    },
+  };
+}
+
+// Answers every response.create the way the Realtime API does: an interim part, then the final text
+function fakeUpstream() {
+  const wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+  /** @type {any[]} */
+  const frames = [];
+  let responses = 0;
+  wss.on('connection', (ws) => {
+    ws.on('message', (raw) => {
+      const m = JSON.parse(raw.toString());
+      frames.push(m);
+      if (m.type !== 'response.create') return;
+      const n = ++responses;
+      ws.send(JSON.stringify({ type: 'response.created' }));
+      ws.send(JSON.stringify({ type: 'response.content_part.added', part: { text: `part ${n}` } }));
+      ws.send(JSON.stringify({ type: 'response.content_part.done', part: { text: `final ${n}` } }));
+      ws.send(JSON.stringify({ type: 'response.done' }));
+    });
+  });
+  return { wss, frames, port: () => /** @type {import('node:net').AddressInfo} */ (wss.address()).port };
+}
+
+/**
+ * Start the relay on a free port with `env` on top of the defaults; resolves once it listens.
+ * @param {NodeJS.ProcessEnv} env
+ */
+function startRelay(env) {
+  const child = spawn(process.execPath, ['--import', 'tsx', 'index.js'], {
+    cwd: HERE,
+    env: {
+      ...process.env,
+      PORT: '0',
+      OPENAI_API_KEY: 'test-key',
+      RELAY_TOKEN_SECRET: '',
+      RECORD_SESSIONS: '',
+      REDACT: '',
+      METRICS_TOKEN: '',
+      ADMIN_TOKEN: '',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  let log = '';
+  child.stderr.on('data', (d) => { log += d; });
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`relay did not start:\n${log}`)), WAIT_MS);
+    child.stdout.on('data', (d) => {
+      log += d;
+      const port = /ws listening on :(\d+)/.exec(log)?.[1];
+      if (port) {
+        clearTimeout(timer);
+        resolve({ child, port: Number(port) });
+      }
+    });
+    child.on('exit', (code) => reject(new Error(`relay exited (${code}):\n${log}`)));
+  });
+}
+
+test('append → commit → interim/final through the relay, with an under-threshold flush riding along', async (t) => {
+  const upstream = fakeUpstream();
+  await new Promise((resolve) => upstream.wss.once('listening', resolve));
+  const { child, port } = await startRelay({ TRANSCRIPTION_PROVIDER: 'openai', OPENAI_REALTIME_URL: `ws://127.0.0.1:${upstream.port()}` });
+  t.after(() => {
+    child.kill();
+    upstream.wss.close();
+  });
+
+  const client = new WebSocket(`ws://127.0.0.1:${port}`);
+  const box = inbox(client);
+  await new Promise((resolve, reject) => { client.once('open', resolve); client.once('error', reject); });
+  t.after(() => client.close());
+  const send = (msg) => client.send(encodeMessage(msg));
+
+  send({ type: 'config', version: PROTOCOL_VERSION, language: 'en' });
+  const ready = await box.next((m) => m.type === 'ready');
+  assert.equal(ready.resumed, false);
+
+  // 50 ms of audio is under the commit threshold: this flush must not reach upstream
+  const short = pcm(1200);
+  assert.ok(short.length < MIN_B64_FOR_100MS);
+  send({ type: 'client.audio.append', audio: short });
+  send({ type: 'client.flush' });
+  send({ type: 'ping', t: 1 });
+  await box.next((m) => m.type === 'pong');
+  const stats = async () => (await (await fetch(`http://127.0.0.1:${port}/sessions/${ready.sessionId}`)).json()).stats;
+  const before = await stats();
+  assert.deepEqual([before.skippedFlushes, before.commits], [1, 0]);
+
+  // Another 200 ms: the next flush commits both appends as one segment
+  send({ type: 'client.audio.append', audio: pcm(4800) });
+  send({ type: 'client.flush', speaker: 'S1' });
+
+  const interim = await box.next((m) => m.type === 'transcript' && m.channel === 'interim');
+  assert.deepEqual([interim.text, interim.commitId], ['part 1', 1]);
+  const final = await box.next((m) => m.type === 'transcript' && m.channel === 'final');
+  assert.equal(final.text, 'final 1');
+  assert.deepEqual([final.seq, final.commitId, final.startMs, final.endMs, final.speaker], [1, 1, 0, 250, 'S1']);
+  assert.ok(final.latency.finalMs >= final.latency.firstInterimMs);
+
+  // Upstream saw both appends before the one commit, then the response request
+  const sent = upstream.frames.map((f) => f.type).filter((type) => type !== 'session.update');
+  assert.deepEqual(sent, ['input_audio_buffer.append', 'input_audio_buffer.append', 'input_audio_buffer.commit', 'response.create']);
+  assert.equal(upstream.frames.find((f) => f.type === 'session.update').session.input_audio_transcription.language, 'en');
+  const after = await stats();
+  assert.deepEqual([after.skippedFlushes, after.commits, after.finals], [1, 1, 1]);
+});
+
+test('POST /summarize answers with a structured recap from the mock provider, redacted by policy', async (t) => {
+  const { child, port } = await startRelay({ TRANSCRIPTION_PROVIDER: 'mock', REDACT: 'email' });
+  t.after(() => child.kill());
+  const post = (body) => fetch(`http://127.0.0.1:${port}/summarize`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  const transcript = [
+    '[0:01.0] Ana: We agreed to ship the beta on Friday.',
+    '[0:04.5] Bo: I will write the release notes by tomorrow.',
+    '[0:09.0] Ana: Send feedback to bo@example.com please.',
+  ].join('\n');
+  const res = await post(JSON.stringify({ transcript, language: 'en' }));
+  assert.equal(res.status, 200);
+  const { summary } = await res.json();
+  assert.match(summary.summary, /from Ana, Bo/);
+  assert.deepEqual(summary.decisions, ['We agreed to ship the beta on Friday.']);
+  assert.deepEqual(summary.actionItems[0], { task: 'I will write the release notes by tomorrow.', owner: 'Bo', due: 'tomorrow' });
+  assert.ok(summary.keywords.length > 0);
+  assert.ok(!JSON.stringify(summary).includes('bo@example.com'));
+
+  assert.equal((await post('{"transcript": ""}')).status, 400);
+  assert.equal((await post('not json')).status, 400);
+  assert.equal((await fetch(`http://127.0.0.1:${port}/summarize`)).status, 405);
+});
+
+test('a session resumes only with the token that opened it, even once that token has expired', async (t) => {
+  const secret = 'integration-secret';
+  const { child, port } = await startRelay({ TRANSCRIPTION_PROVIDER: 'mock', RELAY_TOKEN_SECRET: secret });
+  t.after(() => child.kill());
+  const limits = { maxSessionSec: 60, maxAudioSec: 60 };
+  /** @param {string} token @param {object} [resume] */
+  const handshake = async (token, resume) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}?token=${encodeURIComponent(token)}`);
+    const box = inbox(ws);
+    await new Promise((resolve, reject) => { ws.once('open', resolve); ws.once('error', reject); });
+    t.after(() => ws.close());
+    ws.send(encodeMessage({ type: 'config', version: PROTOCOL_VERSION, language: 'en', resume }));
+    return { ws, box };
+  };
+
+  const owner = issueToken(secret, 1, limits).token;
+  const first = await handshake(owner);
+  const { sessionId } = await first.box.next((m) => m.type === 'ready');
+  first.ws.close();
+
+  // Someone else's token gets a session of its own
+  const other = await handshake(issueToken(secret, 60, limits).token, { sessionId, lastSeq: 0 });
+  const fresh = await other.box.next((m) => m.type === 'ready');
+  assert.equal(fresh.resumed, false);
+  assert.notEqual(fresh.sessionId, sessionId);
+
+  // The owner's token, now expired, may still resume, but not open anything new
+  await new Promise((resolve) => setTimeout(resolve, 1100));
+  const back = await handshake(owner, { sessionId, lastSeq: 0 });
+  assert.deepEqual(await back.box.next((m) => m.type === 'ready').then((m) => [m.resumed, m.sessionId]), [true, sessionId]);
+  const late = await handshake(owner);
+  const closed = await new Promise((resolve) => late.ws.once('close', resolve));
+  assert.equal(closed, CLOSE_CODES.UNAUTHORIZED);
+});
+
+test('/sessions wants ADMIN_TOKEN, not a relay token, once auth is on; /metrics wants METRICS_TOKEN', async (t) => {
+  const secret = 'integration-secret';
+  const { child, port } = await startRelay({ TRANSCRIPTION_PROVIDER: 'mock', RELAY_TOKEN_SECRET: secret, ADMIN_TOKEN: 'operator', METRICS_TOKEN: 'scraper' });
+  t.after(() => child.kill());
+  const list = (authorization) => fetch(`http://127.0.0.1:${port}/sessions`, { headers: authorization ? { authorization } : {} });
+  const relayToken = issueToken(secret, 60, { maxSessionSec: 60, maxAudioSec: 60 }).token;
+
+  assert.equal((await list(`Bearer ${relayToken}`)).status, 401);
+  assert.equal((await list()).status, 401);
+  assert.equal((await list('Bearer operato')).status, 401);
+  const ok = await list('Bearer operator');
+  assert.equal(ok.status, 200);
+  assert.deepEqual((await ok.json()).sessions, []);
+
+  const scrape = (authorization) => fetch(`http://127.0.0.1:${port}/metrics`, { headers: { authorization } });
+  assert.equal((await scrape('Bearer operator')).status, 401);
+  assert.equal((await scrape('Bearer scraper')).status, 200);
+});
+
+test('/recordings wants ADMIN_TOKEN too: a relay token neither reads nor deletes them', async (t) => {
+  const secret = 'integration-secret';
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bc-recordings-'));
+  const { child, port } = await startRelay({ TRANSCRIPTION_PROVIDER: 'mock', RELAY_TOKEN_SECRET: secret, ADMIN_TOKEN: 'operator', RECORD_SESSIONS: '1', RECORDINGS_DIR: dir });
+  t.after(() => {
+    child.kill();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+  const call = (pathname, authorization, method = 'GET') =>
+    fetch(`http://127.0.0.1:${port}${pathname}`, { method, headers: authorization ? { authorization } : {} });
+  const relayToken = `Bearer ${issueToken(secret, 60, { maxSessionSec: 60, maxAudioSec: 60 }).token}`;
+
+  for (const [pathname, method] of [['/recordings', 'GET'], ['/recordings/x', 'GET'], ['/recordings/x/audio.wav', 'GET'], ['/recordings/x', 'DELETE']]) {
+    assert.equal((await call(pathname, relayToken, method)).status, 401, `${method} ${pathname}`);
+    assert.equal((await call(pathname, undefined, method)).status, 401, `${method} ${pathname}`);
+  }
+  const ok = await call('/recordings', 'Bearer operator');
+  assert.equal(ok.status, 200);
+  assert.deepEqual((await ok.json()).recordings, []);
+  assert.equal((await call('/recordings/x', 'Bearer operator', 'DELETE')).status, 404);
+});
@@ -0,0 +1,153 @@
+/** BeyondConversation **
+ * Relay health in the Prometheus text format, served at GET /metrics.
+ *
+ * Counters and histograms add up over the life of the process (sessions come and go);
+ * gauges are read from the registries when scraped.
+ */
+
+import { MIN_B64_FOR_100MS } from './session.js';
+
+/** @typedef {Record<string, string>} Labels */
+
+// Seconds; the same buckets serve both latency histograms
+const LATENCY_BUCKETS = [0.25, 0.5, 1, 2, 3, 5, 8, 13, 20];
+
+/** @param {Labels} labels */
+function labelText(labels) {
+  const entries = Object.entries(labels);
+  if (!entries.length) return '';
+  const escape = (v) => v.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([k, v]) => `${k}="${escape(v)}"`).join(',')}}`;
+}
+
+class Counter {
+  /**
+   * @param {string} name
+   * @param {string} help
+   * @param {boolean} labelled  Labelled series only appear once counted; a plain one starts at 0
+   */
+  constructor(name, help, labelled) {
+    this.name = name;
+    this.help = help;
+    /** @type {Map<string, number>} Keyed by rendered label set */
+    this.values = new Map(labelled ? [] : [['', 0]]);
+  }
+
+  /**
+   * @param {number} [n]
+   * @param {Labels} [labels]
+   */
+  inc(n = 1, labels = {}) {
+    const key = labelText(labels);
+    this.values.set(key, (this.values.get(key) || 0) + n);
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [labels, value] of this.values) lines.push(`${this.name}${labels} ${value}`);
+    return lines;
+  }
+}
+
+class Gauge {
+  /**
+   * @param {string} name
+   * @param {string} help
+   * @param {() => number} read
+   */
+  constructor(name, help, read) {
+    this.name = name;
+    this.help = help;
+    this.read = read;
+  }
+
+  render() {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`, `${this.name} ${this.read()}`];
+  }
+}
+
+class Histogram {
+  /**
+   * @param {string} name
+   * @param {string} help
+   * @param {number[]} buckets  Upper bounds, ascending
+   */
+  constructor(name, help, buckets) {
+    this.name = name;
+    this.help = help;
+    this.buckets = buckets;
+    this.counts = buckets.map(() => 0);
+    this.sum = 0;
+    this.count = 0;
+  }
+
+  /** @param {number} value */
+  observe(value) {
+    this.sum += value;
+    this.count++;
+    const i = this.buckets.findIndex((le) => value <= le);
+    if (i >= 0) this.counts[i]++;
+  }
+
+  render() {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    let cumulative = 0;
+    this.buckets.forEach((le, i) => {
+      cumulative += this.counts[i];
+      lines.push(`${this.name}_bucket{le="${le}"} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket{le="+Inf"} ${this.count}`, `${this.name}_sum ${this.sum}`, `${this.name}_count ${this.count}`);
+    return lines;
+  }
+}
+
+/**
+ * Everything the relay reports. Sessions count into it (SessionOptions.metrics);
+ * index.js serves `render()`.
+ * @param {{ sessions: import('./sessions.js').SessionRegistry, rooms: import('./rooms.js').RoomRegistry }} registries
+ */
+export function createRelayMetrics({ sessions, rooms }) {
+  /** @type {(Counter | Gauge | Histogram)[]} */
+  const all = [];
+  const counter = (name, help, labelled = false) => {
+    const c = new Counter(name, help, labelled);
+    all.push(c);
+    return c;
+  };
+  const gauge = (name, help, read) => all.push(new Gauge(name, help, read));
+  const histogram = (name, help) => {
+    const h = new Histogram(name, help, LATENCY_BUCKETS);
+    all.push(h);
+    return h;
+  };
+
+  gauge('relay_active_sessions', 'Live relay sessions, including ones waiting for their client to resume.', () => sessions.size);
+  gauge('relay_attached_clients', 'Relay sessions with a browser socket attached.', () => {
+    let n = 0;
+    for (const s of sessions.sessions.values()) if (s.client) n++;
+    return n;
+  });
+  gauge('relay_rooms', 'Open broadcast rooms.', () => rooms.size);
+  gauge('relay_room_viewers', 'Viewers subscribed across all rooms.', () => {
+    let n = 0;
+    for (const room of rooms.rooms.values()) n += room.viewers.size;
+    return n;
+  });
+
+  return {
+    sessionsOpened: counter('relay_sessions_opened_total', 'Relay sessions created.'),
+    audioBytes: counter('relay_audio_appended_bytes_total', 'PCM16 audio bytes appended to providers.'),
+    commits: counter('relay_commits_total', 'Flushes committed to the provider.'),
+    skippedCommits: counter('relay_commits_skipped_total', `Flushes not committed because less than ${MIN_B64_FOR_100MS} base64 chars (100 ms) of audio was pending.`),
+    finals: counter('relay_finals_total', 'Final transcripts sent.'),
+    providerErrors: counter('relay_provider_errors_total', 'Errors reported by the transcription provider.', true),
+    providerReconnects: counter('relay_provider_reconnects_total', 'Upstream provider connections lost and retried.', true),
+    translationErrors: counter('relay_translation_errors_total', 'Finals whose translation failed.'),
+    summaries: counter('relay_summaries_total', 'POST /summarize requests answered, by result.', true),
+    firstInterimSeconds: histogram('relay_first_interim_seconds', 'From a commit\'s first audio reaching the relay to its first interim.'),
+    finalSeconds: histogram('relay_final_seconds', 'From a commit\'s first audio reaching the relay to its final.'),
+    render: () => `${all.flatMap((m) => m.render()).join('\n')}\n`,
+  };
+}
+
+/** @typedef {ReturnType<typeof createRelayMetrics>} RelayMetrics */
@@ -0,0 +1,51 @@
+/** BeyondConversation **
+ * Provider selection: TRANSCRIPTION_PROVIDER=openai (default) | mock
+ */
+
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { OpenAIRealtimeProvider, openAISummarizer } from './openai.js';
+import { MockProvider, loadMockScript, mockSummarize } from './mock.js';
+
+export { TranscriptionProvider } from './provider.js';
+
+const DEFAULT_MOCK_SCRIPT = path.join(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/mock-script.json');
+
+/**
+ * Build a factory that creates one provider per session.
+ * @param {NodeJS.ProcessEnv} env
+ * @returns {(opts: { language?: string }) => import('./provider.js').TranscriptionProvider}
+ */
+export function providerFactory(env = process.env) {
+  const name = env.TRANSCRIPTION_PROVIDER || 'openai';
+
+  if (name === 'mock') {
+    const script = loadMockScript(env.MOCK_SCRIPT || DEFAULT_MOCK_SCRIPT);
+    return ({ language }) => new MockProvider({ script, language });
+  }
+  if (name === 'openai') {
+    const model = env.OPENAI_REALTIME_MODEL || 'gpt-4o-realtime-preview-2024-12-17';
+    const url = env.OPENAI_REALTIME_URL || `wss://api.openai.com/v1/realtime?model=${encodeURIComponent(model)}`;
+    const chatUrl = env.OPENAI_CHAT_URL || 'https://api.openai.com/v1/chat/completions';
+    const translationModel = env.OPENAI_TRANSLATION_MODEL || 'gpt-4o-mini';
+    return ({ language }) => new OpenAIRealtimeProvider({ url, chatUrl, translationModel, apiKey: env.OPENAI_API_KEY, language });
+  }
+  throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${name}" (expected "openai" or "mock")`);
+}
+
+/**
+ * The recap engine for POST /summarize, from the same TRANSCRIPTION_PROVIDER.
+ * @param {NodeJS.ProcessEnv} env
+ * @returns {import('./provider.js').Summarizer}
+ */
+export function summarizerFactory(env = process.env) {
+  const name = env.TRANSCRIPTION_PROVIDER || 'openai';
+
+  if (name === 'mock') return mockSummarize;
+  if (name === 'openai') {
+    const chatUrl = env.OPENAI_CHAT_URL || 'https://api.openai.com/v1/chat/completions';
+    const model = env.OPENAI_SUMMARY_MODEL || env.OPENAI_TRANSLATION_MODEL || 'gpt-4o-mini';
+    return openAISummarizer({ chatUrl, apiKey: env.OPENAI_API_KEY, model });
+  }
+  throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${name}" (expected "openai" or "mock")`);
+}
@@ -0,0 +1,140 @@
+/** BeyondConversation **
+ * Deterministic local provider for offline development and tests.
+ *
+ * Every commit is answered with the next line of a script: the words arrive as
+ * cumulative interims, one per `stepMs`, followed by the final. No network, no key.
+ * Translations are the source text tagged with the target language, and summaries
+ * are pieced together from the transcript's own sentences.
+ */
+
+import fs from 'node:fs';
+import { TranscriptionProvider } from './provider.js';
+import { extractKeywords } from '../../lib/summary.ts';
+
+/**
+ * @typedef {Object} MockScript
+ * @property {string[]} lines   Transcripts handed out per commit, in order (wraps around)
+ * @property {number} [stepMs]  Delay between interim words (default 60)
+ */
+
+/** @returns {MockScript} */
+export function loadMockScript(file) {
+  const script = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (!Array.isArray(script.lines) || !script.lines.length || !script.lines.every((l) => typeof l === 'string')) {
+    throw new Error(`mock script ${file}: "lines" must be a non-empty array of strings`);
+  }
+  return script;
+}
+
+export class MockProvider extends TranscriptionProvider {
+  /** @param {{ script: MockScript, language?: string }} opts */
+  constructor({ script, language }) {
+    super('mock');
+    this.script = script;
+    this.stepMs = script.stepMs ?? 60;
+    this.language = language || 'en';
+    this.cursor = 0;
+    this.pendingBytes = 0;
+    /** @type {Set<NodeJS.Timeout>} */
+    this.timers = new Set();
+
+    // Mirror a network provider: become ready asynchronously
+    setImmediate(() => {
+      if (this.state === 'closed') return;
+      this.state = 'open';
+      this.emit('open');
+    });
+  }
+
+  configure({ language, prompt }) {
+    this.language = language || this.language;
+    this.prompt = prompt || '';  // Scripted answers can't be biased; kept for inspection
+  }
+
+  append(b64) {
+    this.pendingBytes += Math.floor((b64.length * 3) / 4);
+  }
+
+  commit() {
+    // Like the Realtime API, one transcription at a time; audio rides along with the next commit
+    if (this.busy) return false;
+    this.busy = true;
+    this.pendingBytes = 0;
+
+    const text = this.script.lines[this.cursor++ % this.script.lines.length];
+    const words = text.split(/\s+/).filter(Boolean);
+    words.forEach((_, i) => {
+      this.later((i + 1) * this.stepMs, () => this.emit('interim', words.slice(0, i + 1).join(' ')));
+    });
+    this.later((words.length + 1) * this.stepMs, () => {
+      this.busy = false;
+      this.emit('final', text);
+    });
+    return true;
+  }
+
+  async translate(text, { to }) {
+    await new Promise((resolve) => this.later(this.stepMs, resolve));
+    return `[${to}] ${text}`;
+  }
+
+  later(ms, fn) {
+    const t = setTimeout(() => {
+      this.timers.delete(t);
+      if (this.state !== 'closed') fn();
+    }, ms);
+    this.timers.add(t);
+  }
+
+  close() {
+    super.close();
+    for (const t of this.timers) clearTimeout(t);
+    this.timers.clear();
+  }
+}
+
+const DECISION = /\b(?:decided|agreed|decision|settled on|(?:we'll|let's) go with)\b/i;
+const COMMITMENT = /\b(?:I'll|I will|will|needs? to|has to|action item|follow up|to-?do)\b/i;
+const DUE = /\bby ((?:next )?(?:monday|tuesday|wednesday|thursday|friday|week|month)|tomorrow|(?:the )?end of (?:the )?(?:day|week|month))\b/i;
+// Sentence openers that look like a name before "will" but aren't one
+const NOT_NAMES = new Set(['We', 'It', 'They', 'This', 'That', 'The', 'He', 'She', 'You', 'There', 'Someone', 'Everyone']);
+
+/**
+ * Offline recap: the opening sentences, sentences that sound like decisions or
+ * commitments (owned by their speaker, or by the name they start with), and the
+ * most frequent words.
+ * @type {import('./provider.js').Summarizer}
+ */
+export async function mockSummarize(transcript) {
+  /** @type {{ speaker: string, sentence: string }[]} */
+  const said = [];
+  for (const line of transcript.split('\n')) {
+    // "[0:01.5] Ana: text"; the speaker prefix only counts after a timestamp
+    const m = /^\s*\[[^\]]*\]\s*(?:([^:]{1,40}):\s+)?(.*)$/.exec(line);
+    const speaker = m?.[1]?.trim() || '';
+    for (const sentence of (m ? m[2] : line).split(/(?<=[.!?])\s+/)) {
+      if (sentence.trim()) said.push({ speaker, sentence: sentence.trim() });
+    }
+  }
+
+  const speakers = [...new Set(said.map((s) => s.speaker).filter(Boolean))];
+  const decisions = said.filter((s) => DECISION.test(s.sentence)).map((s) => s.sentence);
+  const actionItems = said
+    .filter((s) => !DECISION.test(s.sentence) && COMMITMENT.test(s.sentence))
+    .map(({ speaker, sentence }) => {
+      const named = /^(\p{Lu}\p{L}+)(?: will|'ll)\b/u.exec(sentence)?.[1];
+      const owner = named && !NOT_NAMES.has(named) ? named : /\bI(?:'ll| will)\b/.test(sentence) ? speaker : '';
+      const due = DUE.exec(sentence)?.[1];
+      return { task: sentence, ...(owner && { owner }), ...(due && { due }) };
+    });
+
+  return {
+    summary: [
+      `Offline summary of ${said.length} sentence${said.length === 1 ? '' : 's'}${speakers.length ? ` from ${speakers.join(', ')}` : ''}.`,
+      ...said.slice(0, 2).map((s) => s.sentence),
+    ].join(' '),
+    decisions,
+    actionItems,
+    keywords: extractKeywords(said.map((s) => s.sentence).join(' ')),
+  };
+}
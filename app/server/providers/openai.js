@@ -0,0 +1,284 @@
+/** BeyondConversation **
+ * OpenAI Realtime adapter: Whisper transcription over the Realtime WebSocket.
+ */
+
+import WebSocket from 'ws';
+import { TranscriptionProvider } from './provider.js';
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8_000;
+const QUEUE_MAX_B64 = 1_920_000;  // ≈ 30 s of 24 kHz PCM16 as base64
+
+const TRANSLATION_TIMEOUT_MS = 15_000;
+const SUMMARY_TIMEOUT_MS = 60_000;
+
+const INSTRUCTIONS =
+  'Return ONLY a verbatim transcript of the most recently committed audio. ' +
+  'Do NOT translate, paraphrase, summarize, or add commentary. ' +
+  'Keep the original spoken language; output plain text only.';
+
+const SUMMARY_INSTRUCTIONS =
+  'You write meeting recaps from transcripts. Each transcript line is "[time] Speaker: text". ' +
+  'Answer with a JSON object: {"summary": string (3-6 sentences), "decisions": string[], ' +
+  '"actionItems": [{"task": string, "owner"?: string, "due"?: string}], "keywords": string[] (at most 12)}. ' +
+  'Only list decisions and action items the transcript states; owner is the speaker name responsible, if any. ' +
+  'Use only what the transcript says; do not invent names or dates.';
+
+// Pull text out of a content_part payload, whichever field carries it
+function partText(p = {}) {
+  return typeof p.text === 'string' ? p.text :
+    typeof p.content === 'string' ? p.content :
+    typeof p.transcript === 'string' ? p.transcript : '';
+}
+
+/**
+ * @typedef {Object} OpenAIRealtimeOptions
+ * @property {string} url        Realtime endpoint (model already in the query string)
+ * @property {string} [apiKey]
+ * @property {string} [language]
+ * @property {string} [prompt]        Vocabulary hint, from the session glossary
+ * @property {string} chatUrl          Chat Completions endpoint, used for translation
+ * @property {string} translationModel
+ */
+
+export class OpenAIRealtimeProvider extends TranscriptionProvider {
+  /** @param {OpenAIRealtimeOptions} opts */
+  constructor(opts) {
+    super('openai');
+    this.opts = opts;
+    this.language = opts.language || 'en';
+    this.prompt = opts.prompt || '';
+    this.partial = '';      // Interim text of the response in flight
+    this.attempts = 0;
+
+    // Frames held while the socket is (re)connecting
+    /** @type {string[]} */
+    this.queue = [];
+    this.queuedB64 = 0;
+
+    this.connect();
+  }
+
+  // Connect to OpenAI Realtime; on an unexpected drop, retry with exponential backoff
+  connect() {
+    const ws = new WebSocket(this.opts.url, {
+      headers: {
+        Authorization: `Bearer ${this.opts.apiKey}`,
+        'OpenAI-Beta': 'realtime=v1',
+      },
+    });
+    this.ws = ws;
+
+    ws.on('open', () => {
+      this.state = 'open';
+      this.attempts = 0;
+      this.updateSession();
+      // Replay what arrived while the socket was down (appends and commits, in order)
+      const queued = this.queue;
+      this.queue = [];
+      this.queuedB64 = 0;
+      for (const frame of queued) ws.send(frame);
+      this.emit('open');
+    });
+    ws.on('message', (data) => this.handleMessage(data));
+    ws.on('error', (e) => this.emit('error', e));
+    ws.on('close', () => {
+      if (this.state === 'closed' || ws !== this.ws) return;
+      if (this.attempts >= MAX_ATTEMPTS) {
+        this.state = 'closed';
+        this.emit('close');
+        return;
+      }
+      // A response in flight on the old socket will never finish
+      this.busy = false;
+      this.partial = '';
+      this.state = 'reconnecting';
+      const delayMs = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** this.attempts++);
+      this.emit('reconnecting', { attempt: this.attempts, delayMs });
+      setTimeout(() => { if (this.state !== 'closed') this.connect(); }, delayMs);
+    });
+  }
+
+  send(msg) {
+    const frame = JSON.stringify(msg);
+    if (this.ws.readyState === WebSocket.OPEN) {
+      try { this.ws.send(frame); } catch {}
+      return;
+    }
+    // session.update is re-sent on open; only audio and commits need to survive the gap
+    if (msg.type === 'session.update') return;
+    this.queue.push(frame);
+    if (msg.type === 'input_audio_buffer.append') this.queuedB64 += msg.audio.length;
+    // Bounded: drop the oldest audio once we hold more than QUEUE_MAX_B64
+    while (this.queuedB64 > QUEUE_MAX_B64 && this.queue.length) {
+      const dropped = JSON.parse(this.queue.shift());
+      if (dropped.type === 'input_audio_buffer.append') this.queuedB64 -= dropped.audio.length;
+    }
+  }
+
+  // Configure session for transcription via Whisper
+  updateSession() {
+    this.send({
+      type: 'session.update',
+      session: {
+        input_audio_format: 'pcm16',
+        input_audio_transcription: { model: 'whisper-1', language: this.language, ...(this.prompt && { prompt: this.prompt }) },
+      },
+    });
+  }
+
+  configure({ language, prompt }) {
+    this.language = language || this.language;
+    this.prompt = prompt ?? this.prompt;
+    this.updateSession();
+  }
+
+  append(b64) {
+    this.send({ type: 'input_audio_buffer.append', audio: b64 });
+  }
+
+  commit() {
+    this.send({ type: 'input_audio_buffer.commit' });
+    if (this.busy) return false;
+    this.busy = true;
+    this.send({
+      type: 'response.create',
+      response: {
+        modalities: ['text'],
+        conversation: null, // Keep each flush isolated
+        temperature: 0,
+        instructions: this.prompt ? `${INSTRUCTIONS} Spell these terms exactly as written when you hear them. ${this.prompt}` : INSTRUCTIONS,
+      },
+    });
+    return true;
+  }
+
+  // Text-only: a one-shot Chat Completions call per final, outside the realtime socket
+  async translate(text, { from, to }) {
+    const res = await fetch(this.opts.chatUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${this.opts.apiKey}`, 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(TRANSLATION_TIMEOUT_MS),
+      body: JSON.stringify({
+        model: this.opts.translationModel,
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content: `Translate the user's text from language "${from}" to language "${to}". ` +
+              'Return only the translation, with no quotes, notes or commentary.',
+          },
+          { role: 'user', content: text },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`OpenAI translation failed: HTTP ${res.status}`);
+    const body = await res.json();
+    return String(body.choices?.[0]?.message?.content || '').trim();
+  }
+
+  interim(text) {
+    if (!text) return;
+    this.partial += String(text);
+    this.emit('interim', this.partial);
+  }
+
+  final(text) {
+    this.partial = '';
+    const t = String(text || '').trim();
+    if (t) this.emit('final', t);
+  }
+
+  // OpenAI → normalized interim/final events
+  handleMessage(data) {
+    const lines = data.toString().split('\n').filter((l) => l.trim().length > 0);
+
+    for (const line of lines) {
+      let m;
+      try {
+        m = JSON.parse(line);
+      } catch {
+        // Ignore non-JSON line
+        break;
+      }
+
+      // When OpenAI starts / finishes a response
+      if (m.type === 'response.created') {
+        this.busy = true;
+        this.partial = '';
+      }
+      if (m.type === 'response.done') this.busy = false;
+
+      // Handle content_part events carrying text/transcript
+      if (m.type === 'response.content_part.added') {
+        // Do not return; later events (delta/done) may still arrive
+        this.interim(partText(m.part));
+      }
+      if (m.type === 'response.content_part.done') {
+        this.final(partText(m.part));
+        return;
+      }
+
+      // Surface error payloads (helps debugging)
+      if (m.type === 'error' || m.type === 'response.error') {
+        this.emit('error', new Error(`OpenAI ${m.type}: ${m.error?.message || JSON.stringify(m)}`));
+        return;
+      }
+
+      // 1) Audio transcript events
+      if (m.type === 'response.audio_transcript.delta') {
+        this.interim(m.delta || '');
+      } else if (m.type === 'response.audio_transcript.done') {
+        this.final(m.text);
+      }
+
+      // 2) Text variants
+      if (m.type === 'response.text.delta' || m.type === 'response.output_text.delta') {
+        this.interim(m.delta || '');
+      } else if (m.type === 'response.delta' && m.delta?.type === 'output_text.delta') {
+        this.interim(m.delta.text || '');
+      } else if (m.type === 'response.text.done' || m.type === 'response.output_text.done') {
+        this.final(m.text);
+      } else if (m.type === 'response.completed' && Array.isArray(m.response?.output_text) && m.response.output_text.length) {
+        this.final(m.response.output_text.map((x) => x?.content || '').join(' '));
+      }
+    }
+  }
+
+  close() {
+    super.close();
+    try { this.ws.close(); } catch {}
+  }
+}
+
+/**
+ * Post-session recap via one JSON-mode Chat Completions call; index.js checks the shape.
+ * @param {{ chatUrl: string, apiKey?: string, model: string }} opts
+ * @returns {import('./provider.js').Summarizer}
+ */
+export function openAISummarizer({ chatUrl, apiKey, model }) {
+  return async (transcript, { language }) => {
+    const res = await fetch(chatUrl, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${apiKey}`, 'Content-Type': 'application/json' },
+      signal: AbortSignal.timeout(SUMMARY_TIMEOUT_MS),
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: language ? `${SUMMARY_INSTRUCTIONS} Write in language "${language}".` : SUMMARY_INSTRUCTIONS },
+          { role: 'user', content: transcript },
+        ],
+      }),
+    });
+    if (!res.ok) throw new Error(`OpenAI summary failed: HTTP ${res.status}`);
+    const body = await res.json();
+    try {
+      return JSON.parse(body.choices?.[0]?.message?.content || '');
+    } catch {
+      throw new Error('OpenAI summary failed: the answer was not JSON');
+    }
+  };
+}
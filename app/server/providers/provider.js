@@ -0,0 +1,86 @@
+/** BeyondConversation **
+ * TranscriptionProvider: the seam between a relay Session and a speech-to-text engine.
+ *
+ * A provider takes PCM16 LE mono @ 24 kHz (base64) plus commit boundaries and emits
+ * normalized events; the Session never sees engine-specific payloads.
+ *
+ * Events
+ *   'open'          ()                     ready for audio (again, after a reconnect)
+ *   'interim'       (text: string)         cumulative partial text of the current commit
+ *   'final'         (text: string)         finished transcript of one commit
+ *   'reconnecting'  ({ attempt, delayMs }) upstream dropped, retrying
+ *   'error'         (err: Error)           recoverable engine/transport error
+ *   'close'         ()                     gave up for good; the session should end
+ */
+
+import { EventEmitter } from 'node:events';
+
+/**
+ * @typedef {Object} ProviderConfig
+ * @property {string} language  BCP-47-ish input language ('en', 'ko', ...)
+ * @property {string} [prompt]  Vocabulary to bias recognition toward (from the session glossary)
+ */
+
+/**
+ * @typedef {Object} ProviderSnapshot
+ * @property {string} name
+ * @property {'connecting' | 'open' | 'reconnecting' | 'closed'} state
+ * @property {boolean} busy      A transcription is in flight
+ */
+
+/**
+ * Post-session recap of a whole transcript. Stateless, so the relay keeps one, not one per session.
+ * @callback Summarizer
+ * @param {string} transcript  summaryTranscript() lines: "[m:ss.s] Name: text"
+ * @param {{ language?: string }} opts
+ * @returns {Promise<unknown>}  A MeetingSummary-shaped object; the relay checks it with parseSummary()
+ */
+
+export class TranscriptionProvider extends EventEmitter {
+  /** @param {string} name */
+  constructor(name) {
+    super();
+    this.name = name;
+    /** @type {ProviderSnapshot['state']} */
+    this.state = 'connecting';
+    this.busy = false;
+  }
+
+  /** @param {ProviderConfig} _config */
+  configure(_config) {
+    throw new Error(`${this.name}: configure() not implemented`);
+  }
+
+  /** @param {string} _b64  PCM16 LE mono @ 24 kHz */
+  append(_b64) {
+    throw new Error(`${this.name}: append() not implemented`);
+  }
+
+  /**
+   * Close the current audio segment and ask for its transcript.
+   * @returns {boolean} true if a transcription started; false if it was deferred
+   *   (the audio stays buffered and rides along with the next commit)
+   */
+  commit() {
+    throw new Error(`${this.name}: commit() not implemented`);
+  }
+
+  /**
+   * Translate one finished segment. Independent of the audio stream; may run concurrently.
+   * @param {string} _text
+   * @param {{ from: string, to: string }} _langs
+   * @returns {Promise<string>}
+   */
+  async translate(_text, _langs) {
+    throw new Error(`${this.name}: translate() not implemented`);
+  }
+
+  close() {
+    this.state = 'closed';
+  }
+
+  /** @returns {ProviderSnapshot} */
+  snapshot() {
+    return { name: this.name, state: this.state, busy: this.busy };
+  }
+}
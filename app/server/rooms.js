@@ -0,0 +1,149 @@
+/** BeyondConversation **
+ * Broadcast rooms: every presenter session is a room that any number of read-only
+ * viewers can subscribe to.
+ *
+ * A room keeps its own copy of what viewers have been shown (finals with their
+ * translations, the interim in flight), so a late joiner gets the transcript so far
+ * in one `room.snapshot`. Presenter controls: pause (nothing reaches viewers until
+ * resumed) and clear (viewers start over).
+ */
+
+import { randomInt } from 'node:crypto';
+import { CLOSE_CODES, PROTOCOL_VERSION, encodeMessage, parseClientMessage } from '../lib/protocol.ts';
+
+const ROOM_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';  // No look-alikes (0/o, 1/l/i)
+const ROOM_ID_LENGTH = 8;
+
+function roomId() {
+  let id = '';
+  for (let i = 0; i < ROOM_ID_LENGTH; i++) id += ROOM_ALPHABET[randomInt(ROOM_ALPHABET.length)];
+  return id;
+}
+
+export class Room {
+  /**
+   * @param {string} id
+   * @param {import('./session.js').Session} session  The presenter
+   */
+  constructor(id, session) {
+    this.id = id;
+    this.session = session;
+    /** @type {Set<import('ws').WebSocket>} */
+    this.viewers = new Set();
+    this.paused = false;
+    /** @type {import('../lib/protocol.ts').TranscriptSegment[]} */
+    this.segments = [];
+    this.interim = '';
+
+    session.on('transcript', (msg) => this.onTranscript(msg));
+    session.on('room-control', (action) => this.control(action));
+  }
+
+  /** @param {import('../lib/protocol.ts').TranscriptMessage} msg */
+  onTranscript(msg) {
+    if (this.paused) return;
+    if (msg.channel === 'interim') {
+      this.interim = msg.text;
+    } else if (msg.channel === 'final') {
+      const { seq = 0, commitId = 0, startMs = 0, endMs = 0, text, speaker, redactions } = msg;
+      this.segments.push({ seq, commitId, startMs, endMs, text, speaker, redactions });
+      this.interim = '';
+    } else {
+      const seg = this.segments.find((s) => s.seq === msg.seq);
+      if (!seg) return;  // Its final was shown before a clear, or while paused
+      seg.translation = msg.text;
+    }
+    this.broadcast(msg);
+  }
+
+  /** @param {import('../lib/protocol.ts').RoomAction} action */
+  control(action) {
+    if (action === 'clear') {
+      this.segments = [];
+      this.interim = '';
+      this.broadcast({ type: 'room.cleared' });
+      return;
+    }
+    this.paused = action === 'pause';
+    if (this.paused) this.interim = '';
+    this.announce();
+  }
+
+  /** @param {import('ws').WebSocket} ws */
+  join(ws) {
+    this.viewers.add(ws);
+    this.sendTo(ws, {
+      type: 'room.snapshot',
+      version: PROTOCOL_VERSION,
+      room: this.id,
+      paused: this.paused,
+      segments: this.segments,
+      interim: this.interim,
+    });
+    ws.on('message', (raw, isBinary) => {
+      const parsed = isBinary ? null : parseClientMessage(raw.toString());
+      if (parsed?.ok && parsed.message.type === 'ping') return this.sendTo(ws, { type: 'pong', t: parsed.message.t });
+      this.sendTo(ws, { type: 'error', code: 'invalid-message', message: 'Viewers are read-only.' });
+    });
+    ws.on('close', () => {
+      this.viewers.delete(ws);
+      this.announce();
+    });
+    this.announce();
+  }
+
+  // Pause state and audience size, to the presenter and every viewer
+  announce() {
+    const msg = { type: 'room.state', paused: this.paused, viewers: this.viewers.size };
+    this.session.send(msg);
+    this.broadcast(msg);
+  }
+
+  /** @param {import('../lib/protocol.ts').ServerMessage} msg */
+  broadcast(msg) {
+    for (const ws of this.viewers) this.sendTo(ws, msg);
+  }
+
+  sendTo(ws, msg) {
+    try { ws.send(encodeMessage(msg)); } catch {}
+  }
+
+  close() {
+    for (const ws of this.viewers) {
+      try { ws.close(CLOSE_CODES.ROOM_CLOSED, 'presenter left'); } catch {}
+    }
+    this.viewers.clear();
+  }
+}
+
+export class RoomRegistry {
+  constructor() {
+    /** @type {Map<string, Room>} */
+    this.rooms = new Map();
+  }
+
+  /**
+   * Open a room for a presenter session; it closes with the session.
+   * @param {import('./session.js').Session} session
+   */
+  open(session) {
+    let id = roomId();
+    while (this.rooms.has(id)) id = roomId();
+    const room = new Room(id, session);
+    session.roomId = id;
+    this.rooms.set(id, room);
+    session.once('close', () => {
+      this.rooms.delete(id);
+      room.close();
+    });
+    return room;
+  }
+
+  get(id) {
+    return this.rooms.get(id) || null;
+  }
+
+  get size() {
+    return this.rooms.size;
+  }
+}
@@ -0,0 +1,544 @@
+/** BeyondConversation **
+ * Per-connection relay session.
+ *
+ * Every browser socket gets its own Session with its own TranscriptionProvider
+ * (upstream socket, response lifecycle) and buffer accounting, so concurrent
+ * clients never share state.
+ * A session outlives a dropped browser socket for RESUME_GRACE_MS so the client can
+ * reattach (config.resume) and pick up finals it missed.
+ *
+ * Events: 'transcript' (every interim/final/translation it publishes, for its room),
+ * 'room-control' (presenter pause/resume/clear), 'close'.
+ */
+
+import { EventEmitter } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import { AUDIO_SAMPLE_RATE, CLOSE_CODES, PROTOCOL_VERSION, encodeMessage, parseClientMessage } from '../lib/protocol.ts';
+import { applyGlossary, compileGlossary, glossaryPrompt, limitGlossary } from '../lib/glossary.ts';
+import { redact } from '../lib/redaction.ts';
+
+export const MIN_B64_FOR_100MS = 6400;   // ≈ (2400 samples * 2 bytes) * 4/3 base64 expansion
+export const RESUME_GRACE_MS = Number(process.env.RESUME_GRACE_MS) || 30_000;  // How long a detached session waits for its client
+
+const SAMPLES_PER_MS = AUDIO_SAMPLE_RATE / 1000;
+
+/**
+ * @typedef {Object} SessionOptions
+ * @property {(opts: { language?: string }) => import('./providers/provider.js').TranscriptionProvider} createProvider
+ * @property {string} [language]  Initial input language
+ * @property {import('./storage.js').RecordingStore | null} [store]  Persist audio and finals when set
+ * @property {import('../lib/token.ts').RelayTokenClaims | null} [token]  Claims of the token that opened it (auth on)
+ * @property {import('./auth.js').QuotaLedger} [ledger]  Where the token's audio usage is tracked
+ * @property {import('../lib/redaction.ts').RedactionConfig} [redactionPolicy]  Detectors the relay enforces (REDACT); clients can add, not remove
+ * @property {import('./metrics.js').RelayMetrics} [metrics]  Process-wide counters this session adds to
+ */
+
+/**
+ * @typedef {Object} SessionSnapshot
+ * @property {string} id
+ * @property {string | null} room          Broadcast room viewers subscribe to
+ * @property {string} language
+ * @property {string | null} translateTo    Target language of the translation channel, if on
+ * @property {number} glossaryTerms        Size of the glossary the client configured
+ * @property {string[]} redaction           PII detectors in effect
+ * @property {boolean} configured          Whether the `config` handshake has been accepted
+ * @property {'json' | 'binary'} transport  How the client ships audio
+ * @property {boolean} attached            Whether a browser socket is currently bound
+ * @property {number} createdAt            epoch ms
+ * @property {{ maxSessionSec: number, maxAudioSec: number, usedAudioSec: number } | null} quota
+ * @property {number} approxB64SinceCommit
+ * @property {import('./providers/provider.js').ProviderSnapshot} provider
+ * @property {number} samplesReceived     Audio streamed so far, in 24 kHz samples
+ * @property {boolean} recording           Whether audio and finals are being persisted
+ * @property {{ appends: number, b64Appended: number, commits: number, skippedFlushes: number, skippedSamples: number, finals: number, glossaryFixes: number, redactions: number, translations: number, translationErrors: number, providerReconnects: number }} stats
+ */
+
+/**
+ * One provider commit: the slice of the session's audio stream it transcribes.
+ * @typedef {Object} Commit
+ * @property {number} id
+ * @property {number} startSample
+ * @property {number} endSample
+ * @property {string} [speaker]  Label that most of its audio was flushed with
+ * @property {number} startedAt  When its first audio reached the relay (epoch ms)
+ * @property {number} [firstInterimAt]
+ */
+
+/**
+ * A final, placed in the audio stream (offsets in ms since the session's first sample).
+ * @typedef {Object} Segment
+ * @property {number} seq
+ * @property {number} commitId
+ * @property {number} startMs
+ * @property {number} endMs
+ * @property {string} text
+ * @property {string} [translation]  Filled in asynchronously when the session translates
+ * @property {string} [speaker]
+ * @property {import('../lib/redaction.ts').Redaction[]} [redactions]  Where PII was masked in `text`
+ */
+
+export class Session extends EventEmitter {
+  /** @param {SessionOptions} opts */
+  constructor(opts) {
+    super();
+    this.id = randomUUID();
+    /** @type {string | null} Assigned by the RoomRegistry */
+    this.roomId = null;
+    this.opts = opts;
+    /** @type {import('ws').WebSocket | null} */
+    this.client = null;
+    this.language = opts.language || 'en';
+    /** @type {string | null} */
+    this.translateTo = null;
+    this.transport = 'json';         // Declared by the client; binary frames are accepted either way
+    this.createdAt = Date.now();
+    this.configured = false;         // Per attached socket: has it completed the config handshake?
+    this.closed = false;
+    this.detachTimer = null;
+
+    // Buffered audio (per session, never shared)
+    this.approxB64SinceCommit = 0;   // How much audio we've appended since last commit
+    this.samplesReceived = 0;        // Cumulative 24 kHz samples; the clock segment offsets are measured on
+    this.commitStartSample = 0;      // Where the next commit's audio begins
+    this.commitStartedAt = 0;        // When that audio started arriving (epoch ms), for latency
+    this.nextCommitId = 1;
+    /** @type {Commit[]} Commits awaiting their final, oldest first */
+    this.pendingCommits = [];
+    /** @type {Commit | null} */
+    this.lastCommit = null;
+    // Speaker labels of the flushes since the last commit, weighted by their audio
+    this.samplesSinceFlush = 0;
+    /** @type {Map<string, number>} */
+    this.speakerSamples = new Map();
+
+    // Finals already emitted, so a resumed client can catch up without duplicates
+    /** @type {Segment[]} */
+    this.finals = [];
+    this.nextSeq = 1;
+
+    /** @type {import('./storage.js').Recording | null} Started on the first handshake when a store is configured */
+    this.recording = null;
+
+    this.stats = { appends: 0, b64Appended: 0, commits: 0, skippedFlushes: 0, skippedSamples: 0, finals: 0, glossaryFixes: 0, redactions: 0, translations: 0, translationErrors: 0, providerReconnects: 0 };
+
+    // Domain terms from the client's config: a provider prompt, and corrections applied to every transcript
+    /** @type {import('../lib/glossary.ts').GlossaryTerm[]} */
+    this.glossaryTerms = [];
+    /** @type {import('../lib/glossary.ts').CompiledGlossary} */
+    this.glossary = compileGlossary([]);
+    // PII detectors: the relay's policy plus whatever the client asks for
+    /** @type {import('../lib/redaction.ts').RedactionConfig} */
+    this.redaction = { ...opts.redactionPolicy };
+
+    // Session length is capped from the start; audio is charged as it arrives
+    /** @type {NodeJS.Timeout | null} */
+    this.limitTimer = null;
+    if (opts.token) {
+      this.limitTimer = setTimeout(
+        () => this.closeForQuota(CLOSE_CODES.SESSION_LIMIT, `Session length limit (${opts.token?.maxSessionSec}s) reached.`),
+        opts.token.maxSessionSec * 1000,
+      );
+    }
+
+    this.provider = opts.createProvider({ language: this.language });
+    this.wireProvider();
+    opts.metrics?.sessionsOpened.inc();
+  }
+
+  // Provider → normalized transcript/status messages
+  wireProvider() {
+    const p = this.provider;
+    let reconnecting = false;
+    p.on('open', () => {
+      this.log(`provider ${p.name} ready`);
+      if (reconnecting) this.send({ type: 'status', value: 'connected' });
+      reconnecting = false;
+    });
+    p.on('interim', (text) => this.sendInterim(text));
+    p.on('final', (text) => this.sendFinal(text));
+    p.on('reconnecting', ({ delayMs }) => {
+      reconnecting = true;
+      this.stats.providerReconnects++;
+      this.opts.metrics?.providerReconnects.inc(1, { provider: p.name });
+      this.log(`provider ${p.name} dropped; reconnecting in ${delayMs}ms`);
+      // Responses in flight died with the upstream socket: their commits get no final, and
+      // must not lend their offsets, speaker or latency to the next one's
+      if (this.pendingCommits.length) this.log(`${this.pendingCommits.length} commit(s) lost with the provider connection`);
+      this.pendingCommits = [];
+      this.lastCommit = null;
+      this.send({ type: 'status', value: 'provider-reconnecting' });
+    });
+    p.on('error', (e) => {
+      console.error(`[server] [${this.id}] provider ${p.name} error`, e);
+      this.opts.metrics?.providerErrors.inc(1, { provider: p.name });
+      this.send({ type: 'status', value: 'provider-error' });
+    });
+    p.on('close', () => {
+      this.log(`provider ${p.name} gave up`);
+      this.close();
+    });
+  }
+
+  /**
+   * Bind a browser socket to this session (first connect or resume).
+   * @param {import('ws').WebSocket} client
+   */
+  attach(client) {
+    if (this.detachTimer) clearTimeout(this.detachTimer);
+    this.detachTimer = null;
+    const previous = this.client;
+    this.client = client;
+    this.configured = false;
+    if (previous && previous !== client) try { previous.close(); } catch {}
+
+    client.on('message', (raw, isBinary) => { if (this.client === client) this.handleClientMessage(raw, isBinary); });
+    client.on('close', () => { if (this.client === client) this.detach(); });
+  }
+
+  // Browser went away: keep the upstream alive for a grace period so it can resume
+  detach() {
+    this.client = null;
+    this.configured = false;
+    if (this.closed) return;
+    this.log(`client detached; holding session for ${RESUME_GRACE_MS}ms`);
+    this.detachTimer = setTimeout(() => this.close(undefined, 'resume window expired'), RESUME_GRACE_MS);
+  }
+
+  /**
+   * Whether a new socket may take over this session: only with the token that opened it
+   * (its jti), so knowing a session id is not enough. Both are null with auth off.
+   * @param {import('../lib/token.ts').RelayTokenClaims | null} claims
+   */
+  canResume(claims) {
+    return !this.closed && (this.opts.token?.jti ?? null) === (claims?.jti ?? null);
+  }
+
+  log(...args) {
+    console.log(`[server] [${this.id}]`, ...args);
+  }
+
+  /** @param {import('../lib/protocol.ts').ServerMessage} msg */
+  send(msg) {
+    if (!this.client) return;
+    try { this.client.send(encodeMessage(msg)); } catch {}
+  }
+
+  /**
+   * Tell the client which quota ran out, then end the session for good.
+   * @param {number} code  CLOSE_CODES.SESSION_LIMIT or AUDIO_LIMIT
+   * @param {string} message
+   */
+  closeForQuota(code, message) {
+    if (this.closed) return;
+    this.sendError('quota-exceeded', message);
+    this.close(code, 'quota exceeded');
+  }
+
+  /**
+   * @param {import('../lib/protocol.ts').ProtocolErrorCode} code
+   * @param {string} message
+   */
+  sendError(code, message) {
+    console.warn(`[server] [${this.id}] protocol error (${code}):`, message);
+    this.send({ type: 'error', code, message });
+  }
+
+  // Browser → control/config/audio
+  handleClientMessage(raw, isBinary = false) {
+    // Binary frames carry raw PCM16 LE mono @ 24 kHz; re-encode for the provider
+    if (isBinary) {
+      const buf = /** @type {Buffer} */ (raw);
+      if (!this.configured) {
+        this.sendError('not-configured', 'Binary audio sent before the config handshake.');
+      } else if (buf.length % 2 !== 0) {
+        this.sendError('invalid-message', 'Binary audio frames must hold whole PCM16 samples.');
+      } else {
+        this.appendAudio(buf.toString('base64'), buf);
+      }
+      return;
+    }
+    const parsed = parseClientMessage(raw.toString());
+    if (!parsed.ok) {
+      this.sendError(parsed.code, parsed.message);
+      return;
+    }
+    const msg = parsed.message;
+
+    switch (msg.type) {
+      case 'config':
+        // The first config doubles as the handshake
+        if (msg.version !== PROTOCOL_VERSION) {
+          this.sendError('unsupported-version', `Relay speaks protocol v${PROTOCOL_VERSION}, client sent v${msg.version}.`);
+          this.close(CLOSE_CODES.UNSUPPORTED_VERSION, 'unsupported protocol version');
+          return;
+        }
+        this.language = msg.language || this.language;
+        this.transport = msg.transport || this.transport;
+        this.translateTo = msg.translateTo || null;
+        this.glossaryTerms = limitGlossary(msg.glossary || []);
+        this.glossary = compileGlossary(this.glossaryTerms);
+        this.redaction = { ...msg.redaction, ...this.opts.redactionPolicy };
+        this.provider.configure({ language: this.language, prompt: glossaryPrompt(this.glossaryTerms) });
+        if (this.opts.store && !this.recording) {
+          this.recording = this.opts.store.begin({ id: this.id, language: this.language, createdAt: this.createdAt });
+        }
+        this.recording?.setLanguage(this.language, this.translateTo);
+        if (!this.configured) {
+          this.configured = true;
+          const resumed = msg.resume?.sessionId === this.id;
+          this.send({ type: 'ready', version: PROTOCOL_VERSION, sessionId: this.id, resumed, room: this.roomId || '' });
+          // Catch the client up on finals it missed while disconnected
+          if (resumed) {
+            for (const seg of this.finals) {
+              if (seg.seq <= msg.resume.lastSeq) continue;
+              const { translation, ...final } = seg;
+              this.send({ type: 'transcript', channel: 'final', ...final });
+              if (translation) this.send(this.translationMessage(seg));
+            }
+          }
+        }
+        return;
+      case 'ping':
+        this.send({ type: 'pong', t: msg.t });
+        return;
+      case 'error':
+        console.warn(`[server] [${this.id}] client reported protocol error (${msg.code}):`, msg.message);
+        return;
+      case 'subscribe':
+        this.sendError('invalid-message', 'A presenter connection cannot subscribe to a room.');
+        return;
+    }
+
+    if (!this.configured) {
+      this.sendError('not-configured', `"${msg.type}" sent before the config handshake.`);
+      return;
+    }
+    if (msg.type === 'client.audio.append') {
+      this.appendAudio(msg.audio);
+      return;
+    }
+    if (msg.type === 'room.control') {
+      this.log(`room ${this.roomId}: ${msg.action}`);
+      this.emit('room-control', msg.action);
+      return;
+    }
+    if (msg.type === 'client.audio.skip') {
+      this.skipAudio(msg.samples);
+      return;
+    }
+    if (msg.type === 'client.flush') {
+      this.flush(msg.speaker);
+    }
+  }
+
+  /**
+   * @param {string} b64  PCM16 LE mono @ 24 kHz, base64
+   * @param {Buffer} [pcm]  The same audio decoded, when the caller already has it
+   */
+  appendAudio(b64, pcm) {
+    if (this.closed) return;
+    const samples = Math.floor((pcm ? pcm.length : Buffer.byteLength(b64, 'base64')) / 2);
+    if (!this.chargeAudio(samples)) return;
+    if (this.approxB64SinceCommit === 0) this.commitStartedAt = Date.now();
+    this.approxB64SinceCommit += b64.length;
+    this.stats.appends++;
+    this.stats.b64Appended += b64.length;
+    this.opts.metrics?.audioBytes.inc(samples * 2);
+    if (this.recording) {
+      pcm ||= Buffer.from(b64, 'base64');
+      this.recording.writeAudio(pcm);
+    }
+    this.samplesReceived += samples;
+    this.samplesSinceFlush += samples;
+    this.provider.append(b64);
+  }
+
+  /**
+   * Count audio (sent or skipped: both move the timeline and the recording) against
+   * the token's quota; false once it is used up and the session is closing.
+   * @param {number} samples  24 kHz samples
+   */
+  chargeAudio(samples) {
+    const { token, ledger } = this.opts;
+    if (token && ledger && !ledger.charge(token, samples)) {
+      this.closeForQuota(CLOSE_CODES.AUDIO_LIMIT, `Audio quota (${token.maxAudioSec}s) used up.`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Silence the client's VAD held back: keeps offsets on the real timeline (and the
+   * recording in sync) without sending anything upstream.
+   * @param {number} samples  24 kHz samples
+   */
+  skipAudio(samples) {
+    if (!this.chargeAudio(samples)) return;
+    this.stats.skippedSamples += samples;
+    this.recording?.writeSilence(samples);
+    this.samplesReceived += samples;
+    // Nothing uncommitted yet: the next commit starts after the gap
+    if (this.approxB64SinceCommit === 0) this.commitStartSample = this.samplesReceived;
+  }
+
+  /** @param {string} [speaker]  Who the client heard since its previous flush */
+  flush(speaker) {
+    this.log('FLUSH: approxB64SinceCommit =', this.approxB64SinceCommit, 'busy =', this.provider.busy);
+    if (speaker) this.speakerSamples.set(speaker, (this.speakerSamples.get(speaker) || 0) + this.samplesSinceFlush);
+    this.samplesSinceFlush = 0;
+
+    if (this.approxB64SinceCommit < MIN_B64_FOR_100MS) {
+      // Not enough audio yet - skip committing to avoid 'buffer too small'
+      this.stats.skippedFlushes++;
+      this.opts.metrics?.skippedCommits.inc();
+      return;
+    }
+    this.stats.commits++;
+    this.opts.metrics?.commits.inc();
+    // Only a commit that started a transcription closes a segment; a deferred one's
+    // audio rides along with the next (so does the counter)
+    if (!this.provider.commit()) return;
+    this.approxB64SinceCommit = 0;
+    /** @type {Commit} */
+    const commit = { id: this.nextCommitId++, startSample: this.commitStartSample, endSample: this.samplesReceived, startedAt: this.commitStartedAt };
+    this.commitStartSample = this.samplesReceived;
+    // Skipped and deferred flushes ride along, so their speakers count toward this commit
+    let most = 0;
+    for (const [label, samples] of this.speakerSamples) {
+      if (samples >= most) { most = samples; commit.speaker = label; }
+    }
+    this.speakerSamples.clear();
+    this.pendingCommits.push(commit);
+    this.lastCommit = commit;
+  }
+
+  sendInterim(text) {
+    if (!text) return;
+    const pending = this.pendingCommits[0];
+    if (pending && !pending.firstInterimAt) pending.firstInterimAt = Date.now();
+    const commitId = pending?.id;
+    const corrected = applyGlossary(String(text), this.glossary).text;
+    this.publish({ type: 'transcript', channel: 'interim', text: redact(corrected, this.redaction).text, commitId });
+  }
+
+  sendFinal(text) {
+    const raw = String(text || '').trim();
+    if (!raw) return;
+    const { text: corrected, fixes } = applyGlossary(raw, this.glossary);
+    this.stats.glossaryFixes += fixes;
+    // Redaction goes last, so nothing after it can put PII back; the unredacted text is dropped here
+    const { text: t, redactions } = redact(corrected, this.redaction);
+    // Providers answer commits in order; a second final for the same response reuses its commit
+    const pending = this.pendingCommits.shift();
+    const commit = pending || this.lastCommit || { id: 0, startSample: 0, endSample: this.samplesReceived, startedAt: 0 };
+    /** @type {Segment} */
+    const seg = {
+      seq: this.nextSeq++,
+      commitId: commit.id,
+      startMs: Math.round(commit.startSample / SAMPLES_PER_MS),
+      endMs: Math.round(commit.endSample / SAMPLES_PER_MS),
+      text: t,
+    };
+    if (commit.speaker) seg.speaker = commit.speaker;
+    if (redactions.length) {
+      seg.redactions = redactions;
+      this.stats.redactions += redactions.length;
+    }
+    this.finals.push(seg);
+    this.recording?.addSegment(seg);
+    this.stats.finals++;
+    this.opts.metrics?.finals.inc();
+    this.publish({ type: 'transcript', channel: 'final', ...seg, latency: pending ? this.latency(pending) : undefined });
+    if (this.translateTo && this.translateTo !== this.language) this.translate(seg, this.language, this.translateTo);
+  }
+
+  /**
+   * How long a commit took to come back, counted from its first audio (relay clock).
+   * @param {Commit} commit
+   * @returns {import('../lib/protocol.ts').SegmentLatency}
+   */
+  latency(commit) {
+    const finalMs = Date.now() - commit.startedAt;
+    const firstInterimMs = commit.firstInterimAt ? commit.firstInterimAt - commit.startedAt : undefined;
+    this.opts.metrics?.finalSeconds.observe(finalMs / 1000);
+    if (firstInterimMs !== undefined) this.opts.metrics?.firstInterimSeconds.observe(firstInterimMs / 1000);
+    return { firstInterimMs, finalMs };
+  }
+
+  /**
+   * Second channel: the final's translation, sent (and recorded) whenever it lands.
+   * @param {Segment} seg
+   * @param {string} from
+   * @param {string} to
+   */
+  async translate(seg, from, to) {
+    try {
+      // The provider only ever sees redacted text; its answer is checked again anyway
+      const text = redact((await this.provider.translate(seg.text, { from, to })).trim(), this.redaction).text;
+      if (!text || this.closed) return;
+      seg.translation = text;
+      this.stats.translations++;
+      this.recording?.saveMeta();
+      this.publish(this.translationMessage(seg));
+    } catch (e) {
+      this.stats.translationErrors++;
+      this.opts.metrics?.translationErrors.inc();
+      console.warn(`[server] [${this.id}] translation of #${seg.seq} failed:`, e instanceof Error ? e.message : e);
+    }
+  }
+
+  /** @param {Segment} seg */
+  translationMessage(seg) {
+    const { seq, commitId, startMs, endMs } = seg;
+    return { type: 'transcript', channel: 'translation', text: seg.translation || '', seq, commitId, startMs, endMs };
+  }
+
+  // New transcript output: to the presenter, and to the room
+  publish(msg) {
+    this.send(msg);
+    this.emit('transcript', msg);
+  }
+
+  /** @returns {SessionSnapshot} */
+  snapshot() {
+    return {
+      id: this.id,
+      room: this.roomId,
+      language: this.language,
+      translateTo: this.translateTo,
+      glossaryTerms: this.glossaryTerms.length,
+      redaction: Object.keys(this.redaction),
+      configured: this.configured,
+      transport: this.transport,
+      attached: !!this.client,
+      createdAt: this.createdAt,
+      quota: this.opts.token ? {
+        maxSessionSec: this.opts.token.maxSessionSec,
+        maxAudioSec: this.opts.token.maxAudioSec,
+        usedAudioSec: this.opts.ledger?.usedSeconds(this.opts.token.jti) ?? 0,
+      } : null,
+      approxB64SinceCommit: this.approxB64SinceCommit,
+      samplesReceived: this.samplesReceived,
+      recording: !!this.recording,
+      provider: this.provider.snapshot(),
+      stats: { ...this.stats },
+    };
+  }
+
+  /**
+   * Tear down the client socket and the provider. Safe to call more than once.
+   * @param {number} [code]
+   * @param {string} [reason]
+   */
+  close(code, reason) {
+    if (this.closed) return;
+    this.closed = true;
+    if (this.detachTimer) clearTimeout(this.detachTimer);
+    if (this.limitTimer) clearTimeout(this.limitTimer);
+    try { this.provider.close(); } catch {}
+    try { this.client?.close(code, reason); } catch {}
+    if (this.recording) this.opts.store?.finish(this.recording);
+    this.log('closed', reason || '');
+    this.emit('close');
+  }
+}
@@ -0,0 +1,78 @@
+/** BeyondConversation **
+ * Session bookkeeping against a scripted provider: no sockets, no relay process.
+ */
+
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { Session } from './session.js';
+import { TranscriptionProvider } from './providers/provider.js';
+import { PROTOCOL_VERSION, encodeMessage } from '../lib/protocol.ts';
+
+// Transcribes one commit at a time; the test emits its events
+class ScriptedProvider extends TranscriptionProvider {
+  constructor() {
+    super('scripted');
+    this.state = 'open';
+  }
+  configure() {}
+  append() {}
+  commit() {
+    if (this.busy) return false;
+    this.busy = true;
+    return true;
+  }
+}
+
+// A browser socket that keeps what the session sends it
+class FakeClient extends EventEmitter {
+  /** @type {any[]} */
+  sent = [];
+  send(raw) { this.sent.push(JSON.parse(raw)); }
+  close() {}
+}
+
+function start() {
+  /** @type {ScriptedProvider | null} */
+  let provider = null;
+  const session = new Session({ createProvider: () => (provider = new ScriptedProvider()) });
+  const client = new FakeClient();
+  session.attach(/** @type {any} */ (client));
+  const send = (msg) => session.handleClientMessage(Buffer.from(encodeMessage(msg)));
+  send({ type: 'config', version: PROTOCOL_VERSION, language: 'en' });
+  return { session, client, send, provider: /** @type {ScriptedProvider} */ (/** @type {unknown} */ (provider)) };
+}
+
+// 200 ms of silent PCM16 at 24 kHz, base64
+const audio200ms = Buffer.alloc(4800 * 2).toString('base64');
+
+test('a final after a provider reconnect gets its own commit, not the one lost in the drop', (t) => {
+  const { session, client, send, provider } = start();
+  t.after(() => session.close());
+
+  send({ type: 'client.audio.append', audio: audio200ms });
+  send({ type: 'client.flush', speaker: 'S1' });
+  // Upstream drops before answering commit 1
+  provider.busy = false;
+  provider.emit('reconnecting', { attempt: 1, delayMs: 0 });
+
+  send({ type: 'client.audio.append', audio: audio200ms });
+  send({ type: 'client.flush', speaker: 'S2' });
+  provider.emit('final', 'second');
+
+  const final = client.sent.find((m) => m.type === 'transcript' && m.channel === 'final');
+  assert.deepEqual([final.text, final.commitId, final.startMs, final.endMs, final.speaker], ['second', 2, 200, 400, 'S2']);
+});
+
+test('skips move the offsets of the next commit', (t) => {
+  const { session, client, send, provider } = start();
+  t.after(() => session.close());
+
+  send({ type: 'client.audio.skip', samples: 24_000 });
+  send({ type: 'client.audio.append', audio: audio200ms });
+  send({ type: 'client.flush' });
+  provider.emit('final', 'after a pause');
+
+  const final = client.sent.find((m) => m.type === 'transcript' && m.channel === 'final');
+  assert.deepEqual([final.startMs, final.endMs], [1000, 1200]);
+});
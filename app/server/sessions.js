@@ -0,0 +1,49 @@
+/** BeyondConversation **
+ * Registry of live relay sessions: list, inspect and force-close.
+ */
+
+import { CLOSE_CODES } from '../lib/protocol.ts';
+
+export class SessionRegistry {
+  constructor() {
+    /** @type {Map<string, import('./session.js').Session>} */
+    this.sessions = new Map();
+  }
+
+  /** @param {import('./session.js').Session} session */
+  add(session) {
+    this.sessions.set(session.id, session);
+    session.once('close', () => this.sessions.delete(session.id));
+    return session;
+  }
+
+  get(id) {
+    return this.sessions.get(id) || null;
+  }
+
+  get size() {
+    return this.sessions.size;
+  }
+
+  /** @returns {import('./session.js').SessionSnapshot[]} */
+  list() {
+    return Array.from(this.sessions.values(), (s) => s.snapshot());
+  }
+
+  /** @returns {import('./session.js').SessionSnapshot | null} */
+  inspect(id) {
+    return this.get(id)?.snapshot() || null;
+  }
+
+  /** Force-close a live session. Returns false when the id is unknown. */
+  close(id, reason = 'closed by operator') {
+    const session = this.get(id);
+    if (!session) return false;
+    session.close(CLOSE_CODES.FORCED, reason);
+    return true;
+  }
+
+  closeAll(reason = 'server shutting down') {
+    for (const id of Array.from(this.sessions.keys())) this.close(id, reason);
+  }
+}
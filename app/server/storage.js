@@ -0,0 +1,199 @@
+/** BeyondConversation **
+ * Filesystem store for recorded sessions.
+ *
+ * One directory per relay session under RECORDINGS_DIR:
+ *   audio.wav     PCM16 mono @ 24 kHz, appended as it streams; the RIFF sizes are
+ *                 patched in when the session closes
+ *   session.json  Metadata and every final segment, rewritten as finals arrive
+ */
+
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { AUDIO_SAMPLE_RATE } from '../lib/protocol.ts';
+
+const WAV_HEADER_BYTES = 44;
+const ID_RE = /^[0-9a-f-]{36}$/i;   // Session ids are UUIDs; anything else never touches the disk
+
+/**
+ * @typedef {Object} RecordingMeta
+ * @property {string} id
+ * @property {string} language
+ * @property {string | null} translateTo
+ * @property {number} createdAt      epoch ms
+ * @property {number | null} endedAt epoch ms; null while the session is live
+ * @property {number} sampleRate
+ * @property {number} durationMs     Audio recorded so far
+ * @property {import('./session.js').Segment[]} segments
+ */
+
+/** @param {number} dataBytes */
+function wavHeader(dataBytes) {
+  const h = Buffer.alloc(WAV_HEADER_BYTES);
+  h.write('RIFF', 0, 'ascii');
+  h.writeUInt32LE(36 + dataBytes, 4);
+  h.write('WAVE', 8, 'ascii');
+  h.write('fmt ', 12, 'ascii');
+  h.writeUInt32LE(16, 16);                     // fmt chunk size
+  h.writeUInt16LE(1, 20);                      // PCM
+  h.writeUInt16LE(1, 22);                      // mono
+  h.writeUInt32LE(AUDIO_SAMPLE_RATE, 24);
+  h.writeUInt32LE(AUDIO_SAMPLE_RATE * 2, 28);  // byte rate
+  h.writeUInt16LE(2, 32);                      // block align
+  h.writeUInt16LE(16, 34);                     // bits per sample
+  h.write('data', 36, 'ascii');
+  h.writeUInt32LE(dataBytes, 40);
+  return h;
+}
+
+// One session being written to disk
+export class Recording {
+  /**
+   * @param {string} dir
+   * @param {{ id: string, language: string, createdAt: number }} info
+   */
+  constructor(dir, info) {
+    this.dir = dir;
+    fs.mkdirSync(dir, { recursive: true });
+    this.audio = fs.createWriteStream(path.join(dir, 'audio.wav'));
+    this.audio.on('error', (e) => console.error(`[server] [${info.id}] recording audio error`, e));
+    this.audio.write(wavHeader(0));
+    this.dataBytes = 0;
+    this.finished = false;
+    /** @type {RecordingMeta} */
+    this.meta = { ...info, translateTo: null, endedAt: null, sampleRate: AUDIO_SAMPLE_RATE, durationMs: 0, segments: [] };
+    // session.json writes run one after another so a slow write never lands after a newer one
+    this.writing = Promise.resolve();
+    this.saveMeta();
+  }
+
+  /** @param {Buffer} pcm  PCM16 LE mono @ 24 kHz */
+  writeAudio(pcm) {
+    if (this.finished || !pcm.length) return;
+    this.audio.write(pcm);
+    this.dataBytes += pcm.length;
+  }
+
+  /** @param {number} samples  Silence the client left out; written so offsets match the file */
+  writeSilence(samples) {
+    // In slices, so a long gap doesn't allocate one huge buffer
+    for (let left = samples; left > 0; left -= AUDIO_SAMPLE_RATE) this.writeAudio(Buffer.alloc(Math.min(left, AUDIO_SAMPLE_RATE) * 2));
+  }
+
+  /** @param {import('./session.js').Segment} seg */
+  addSegment(seg) {
+    if (this.finished) return;
+    this.meta.segments.push(seg);
+    this.saveMeta();
+  }
+
+  /**
+   * @param {string} language
+   * @param {string | null} translateTo
+   */
+  setLanguage(language, translateTo) {
+    this.meta.language = language;
+    this.meta.translateTo = translateTo;
+  }
+
+  saveMeta() {
+    this.meta.durationMs = Math.round((this.dataBytes / 2 / AUDIO_SAMPLE_RATE) * 1000);
+    const json = JSON.stringify(this.meta, null, 2);
+    const file = path.join(this.dir, 'session.json');
+    this.writing = this.writing
+      .then(() => fsp.writeFile(file, json))
+      .catch((e) => console.error('[server] recording metadata write failed', e));
+    return this.writing;
+  }
+
+  /** Close the audio file, patch its RIFF header and write the final metadata. */
+  async finish() {
+    if (this.finished) return;
+    this.finished = true;
+    this.meta.endedAt = Date.now();
+    await new Promise((resolve) => this.audio.end(resolve));
+    try {
+      const fh = await fsp.open(path.join(this.dir, 'audio.wav'), 'r+');
+      try { await fh.write(wavHeader(this.dataBytes), 0, WAV_HEADER_BYTES, 0); } finally { await fh.close(); }
+    } catch (e) {
+      console.error('[server] recording header patch failed', e);
+    }
+    await this.saveMeta();
+  }
+}
+
+export class RecordingStore {
+  /** @param {string} root */
+  constructor(root) {
+    this.root = path.resolve(root);
+    /** @type {Map<string, Recording>} Recordings still being written */
+    this.active = new Map();
+    /** @type {Set<Promise<void>>} */
+    this.finishing = new Set();
+  }
+
+  /**
+   * Start recording a session.
+   * @param {{ id: string, language: string, createdAt: number }} info
+   */
+  begin(info) {
+    const rec = new Recording(path.join(this.root, info.id), info);
+    this.active.set(info.id, rec);
+    return rec;
+  }
+
+  /** @param {Recording} rec */
+  finish(rec) {
+    const done = rec.finish().finally(() => {
+      this.active.delete(rec.meta.id);
+      this.finishing.delete(done);
+    });
+    this.finishing.add(done);
+    return done;
+  }
+
+  /** Resolves once every closing recording is on disk (used on shutdown). */
+  settle() {
+    return Promise.all(Array.from(this.finishing)).then(() => {});
+  }
+
+  /** @returns {Promise<RecordingMeta | null>} */
+  async get(id) {
+    if (!ID_RE.test(id)) return null;
+    const live = this.active.get(id);
+    if (live) return { ...live.meta, segments: [...live.meta.segments] };
+    try {
+      return JSON.parse(await fsp.readFile(path.join(this.root, id, 'session.json'), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /** Newest first, without segments. */
+  async list() {
+    let ids = [];
+    try { ids = await fsp.readdir(this.root); } catch {}
+    const metas = await Promise.all(ids.map((id) => this.get(id)));
+    return metas
+      .filter((m) => m !== null)
+      .map(({ segments, ...m }) => ({ ...m, segmentCount: segments.length, preview: segments.slice(0, 3).map((s) => s.text).join(' ') }))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /** Path of a finished recording's WAV, or null. */
+  audioPath(id) {
+    if (!ID_RE.test(id) || this.active.has(id)) return null;
+    const file = path.join(this.root, id, 'audio.wav');
+    return fs.existsSync(file) ? file : null;
+  }
+
+  /** @returns {Promise<'deleted' | 'not-found' | 'active'>} */
+  async remove(id) {
+    if (!ID_RE.test(id)) return 'not-found';
+    if (this.active.has(id)) return 'active';
+    const dir = path.join(this.root, id);
+    if (!fs.existsSync(dir)) return 'not-found';
+    await fsp.rm(dir, { recursive: true, force: true });
+    return 'deleted';
+  }
+}
@@ -0,0 +1,115 @@
+'use client';
+
+/** BeyondConversation **
+ * Read-only live captions for a presenter's room (/view/<room>).
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { CLOSE_CODES, type ServerMessage, type TranscriptSegment } from '../../lib/protocol';
+import { RelayClient, type RelayClientStatus } from '../../lib/relayClient';
+import { candidateWsUrls, fetchRelayToken } from '../../lib/relay';
+import { defaultSpeakerName } from '../../lib/speakers';
+import { formatOffset } from '../../lib/transcript';
+
+export default function RoomViewer(): React.JSX.Element | null {
+  const { room } = useParams<{ room: string }>();
+  const [status, setStatus] = useState<RelayClientStatus>('disconnected');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [interim, setInterim] = useState('');
+  const [paused, setPaused] = useState(false);
+  const [viewers, setViewers] = useState(0);
+  const [ended, setEnded] = useState<string | null>(null);
+  const paneRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!room) return;
+    const onMessage = (msg: ServerMessage) => {
+      switch (msg.type) {
+        case 'room.snapshot':
+          setSegments(msg.segments);
+          setInterim(msg.interim);
+          setPaused(msg.paused);
+          return;
+        case 'room.state':
+          setPaused(msg.paused);
+          setViewers(msg.viewers);
+          if (msg.paused) setInterim('');
+          return;
+        case 'room.cleared':
+          setSegments([]);
+          setInterim('');
+          return;
+        case 'transcript':
+          if (msg.channel === 'interim') {
+            setInterim(msg.text);
+          } else if (msg.channel === 'final') {
+            const { seq = 0, commitId = 0, startMs = 0, endMs = 0, text, speaker } = msg;
+            setSegments((prev) => [...prev, { seq, commitId, startMs, endMs, text, speaker }]);
+            setInterim('');
+          } else {
+            setSegments((prev) => prev.map((s) => (s.seq === msg.seq ? { ...s, translation: msg.text } : s)));
+          }
+          return;
+        case 'error':
+          console.error(`[viewer] relay reported ${msg.code}:`, msg.message);
+          return;
+      }
+    };
+    const client = new RelayClient({
+      urls: candidateWsUrls(),
+      room,
+      authorize: fetchRelayToken,
+      onMessage,
+      onStatus: setStatus,
+      onClosed: (code) => setEnded(
+        code === CLOSE_CODES.ROOM_NOT_FOUND ? 'No live room with this id.'
+          : code === CLOSE_CODES.UNAUTHORIZED ? 'The relay rejected our access token.'
+            : 'The presenter ended this session.',
+      ),
+    });
+    client.connect();
+    return () => client.close();
+  }, [room]);
+
+  useEffect(() => {
+    if (paneRef.current) paneRef.current.scrollTop = paneRef.current.scrollHeight;
+  }, [segments, interim]);
+
+  const translated = segments.some((s) => s.translation);
+
+  return (
+    <div style={{ fontFamily: 'system-ui, sans-serif', padding: 16, maxWidth: 1100, margin: '0 auto' }}>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'baseline', marginBottom: 8, fontSize: 12, opacity: 0.8 }}>
+        <strong style={{ fontSize: 16 }}>Room {room}</strong>
+        <span>{status}</span>
+        <span>{viewers} watching</span>
+        {paused && <span style={{ color: '#b45309' }}>Captions paused by the presenter</span>}
+      </div>
+
+      {ended && (
+        <div style={{ padding: 12, border: '1px solid #fde68a', background: '#fffbeb', color: '#7c2d12', borderRadius: 12, marginBottom: 12 }}>{ended}</div>
+      )}
+
+      <div ref={paneRef} style={{ border: '1px solid #e5e7eb', borderRadius: 12, padding: 16, background: '#fff', height: '80vh', overflow: 'auto', fontSize: 22, lineHeight: 1.5 }}>
+        {segments.length === 0 && !interim && <div style={{ opacity: 0.5, fontSize: 16 }}>Waiting for captions…</div>}
+        {segments.map((s) => (
+          <div key={s.seq} style={{ display: 'flex', gap: 12, marginBottom: 6 }}>
+            <div style={{ width: 70, textAlign: 'right', opacity: 0.4, fontSize: 13, paddingTop: 6, fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace' }}>{formatOffset(s.startMs)}</div>
+            <div style={{ flex: 1 }}>
+              {s.speaker && <span style={{ fontWeight: 600, marginRight: 8, opacity: 0.7 }}>{defaultSpeakerName(s.speaker)}:</span>}
+              {s.text}
+            </div>
+            {translated && <div style={{ flex: 1, color: '#1d4ed8' }}>{s.translation ?? ''}</div>}
+          </div>
+        ))}
+        {interim && (
+          <div style={{ display: 'flex', gap: 12 }}>
+            <div style={{ width: 70 }} />
+            <div style={{ flex: 1, opacity: 0.6 }}>{interim}</div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}